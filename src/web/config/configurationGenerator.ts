@@ -1,7 +1,7 @@
 // Configuration generation system for symbols and directories
 
 import * as vscode from 'vscode';
-import { DebugConfigurationProvider } from '../views/debugPanel';
+import { DebugConfigurationProvider, LaunchScope } from '../views/debugPanel';
 import { CommandGenerator, SymbolInfo } from './debugCommandGenerator';
 
 export interface ConfigurationTarget {
@@ -248,7 +248,8 @@ export class ConfigurationGenerator {
     static async createAndSaveConfiguration(
         target: ConfigurationTarget,
         framework?: FrameworkOption,
-        provider?: DebugConfigurationProvider
+        provider?: DebugConfigurationProvider,
+        scope?: LaunchScope
     ): Promise<boolean> {
         try {
             const config = await this.generateDebugConfiguration(target, framework);
@@ -261,7 +262,7 @@ export class ConfigurationGenerator {
             if (provider) {
                 // Use the existing DebugConfigurationProvider to add configuration
                 // This ensures it syncs with launch.json and appears in debug config tree
-                await provider.addConfiguration(config);
+                await provider.addConfiguration(config, true, scope);
                 vscode.window.showInformationMessage(`Debug configuration "${config.name}" created successfully!`);
             } else {
                 vscode.window.showErrorMessage('Debug configuration provider not available.');
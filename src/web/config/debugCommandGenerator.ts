@@ -143,8 +143,8 @@ export class SymbolDetector {
         }
 
         // Get workspace info early for error handling
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        const workspaceRoot = workspaceFolders?.[0]?.uri.fsPath || '';
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri) || vscode.workspace.workspaceFolders?.[0];
+        const workspaceRoot = workspaceFolder?.uri.fsPath || '';
 
         if (symbolPath.length === 0) {
             vscode.window.showWarningMessage(`Unable to identify a valid test function or method to debug. Please select a test function, class, or method name.`);
@@ -0,0 +1,45 @@
+// Debug adapters that can launch a program without attaching a debugger
+
+import { LaunchConfiguration } from '../core/types';
+
+/**
+ * Debug types whose adapters honour `noDebug` on launch requests: the program runs
+ * without the debugger, so breakpoints never bind and no debug overhead is paid
+ */
+const NO_DEBUG_TYPES: ReadonlySet<string> = new Set([
+    // JavaScript debugger (js-debug) and its legacy aliases
+    'node',
+    'pwa-node',
+    'node-terminal',
+    // Python
+    'python',
+    'debugpy',
+    // Go (Delve)
+    'go',
+    // Java
+    'java',
+    // .NET
+    'coreclr',
+    'clr',
+    // C/C++ (Microsoft C/C++ extension and CodeLLDB)
+    'cppdbg',
+    'cppvsdbg',
+    'lldb',
+    // PHP (Xdebug)
+    'php'
+]);
+
+/**
+ * Whether a configuration can be run through its adapter with `noDebug`; attach
+ * requests and unknown adapters fall back to breakpoint suppression
+ */
+export function supportsNoDebug(config: LaunchConfiguration): boolean {
+    return config.request === 'launch' && NO_DEBUG_TYPES.has(config.type);
+}
+
+/**
+ * Whether every configuration of a run supports `noDebug`; an empty run does not
+ */
+export function allSupportNoDebug(configs: LaunchConfiguration[]): boolean {
+    return configs.length > 0 && configs.every(supportsNoDebug);
+}
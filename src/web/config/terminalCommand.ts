@@ -0,0 +1,240 @@
+// Conversion of launch configurations into shell commands for the integrated terminal
+
+import { CommandTemplate } from './debugCommandGenerator';
+import { LaunchConfiguration } from '../core/types';
+
+/**
+ * Normalise launch.json `args`: adapters accept an array or a single shell string
+ */
+function toArgs(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.map(arg => String(arg));
+    }
+    if (typeof value === 'string') {
+        return value.split(/\s+/).filter(Boolean);
+    }
+    return [];
+}
+
+/**
+ * Environment variables of a configuration as strings; null entries mean "unset" and are dropped
+ */
+function toEnv(value: unknown): Record<string, string> | undefined {
+    if (!value || typeof value !== 'object') {
+        return undefined;
+    }
+    const env: Record<string, string> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+        if (entry !== null && entry !== undefined) {
+            env[key] = String(entry);
+        }
+    }
+    return env;
+}
+
+/**
+ * cargo arguments that run what CodeLLDB's `cargo.args` only builds: `build` becomes `run`,
+ * and `test --no-run` or `bench --no-run` run the tests or benchmarks
+ */
+function toCargoRunArgs(cargoArgs: string[]): string[] {
+    const [subcommand, ...rest] = cargoArgs;
+    return [subcommand === 'build' ? 'run' : subcommand, ...rest.filter(arg => arg !== '--no-run')];
+}
+
+/**
+ * Build the command line a configuration would launch, without any debug adapter.
+ * Throws when the configuration names nothing runnable.
+ */
+export function toCommandTemplate(config: LaunchConfiguration): CommandTemplate {
+    const args = toArgs(config.args);
+    const runtimeArgs = toArgs(config.runtimeArgs);
+    const program: string | undefined = config.program;
+    let command: string | undefined;
+    let commandArgs: string[] = [];
+
+    switch (config.type) {
+        case 'python':
+        case 'debugpy': {
+            command = config.python || config.pythonPath || 'python';
+            if (config.module) {
+                commandArgs = [...runtimeArgs, '-m', config.module, ...args];
+            } else if (program) {
+                commandArgs = [...runtimeArgs, program, ...args];
+            } else {
+                command = undefined;
+            }
+            break;
+        }
+        case 'node':
+        case 'pwa-node':
+            command = config.runtimeExecutable || 'node';
+            commandArgs = [...runtimeArgs, ...(program ? [program] : []), ...args];
+            if (!program && !config.runtimeExecutable) {
+                command = undefined;
+            }
+            break;
+        case 'node-terminal':
+            // The JavaScript debug terminal already holds a complete shell command
+            command = config.command;
+            break;
+        case 'go':
+            if (config.mode === 'exec') {
+                command = program;
+                commandArgs = args;
+            } else if (program) {
+                command = 'go';
+                commandArgs = [config.mode === 'test' ? 'test' : 'run', program, ...args];
+            }
+            break;
+        case 'coreclr':
+        case 'clr':
+            if (program && program.endsWith('.dll')) {
+                command = 'dotnet';
+                commandArgs = [program, ...args];
+            } else {
+                command = program;
+                commandArgs = args;
+            }
+            break;
+        case 'java':
+            if (config.mainClass) {
+                command = 'java';
+                commandArgs = [...toArgs(config.vmArgs), config.mainClass, ...args];
+            }
+            break;
+        case 'lldb':
+            if (Array.isArray(config.cargo?.args)) {
+                command = 'cargo';
+                commandArgs = [...toCargoRunArgs(toArgs(config.cargo.args)), ...(args.length > 0 ? ['--', ...args] : [])];
+            } else if (program) {
+                command = program;
+                commandArgs = args;
+            }
+            break;
+        default:
+            if (config.runtimeExecutable) {
+                command = config.runtimeExecutable;
+                commandArgs = [...runtimeArgs, ...(program ? [program] : []), ...args];
+            } else if (program) {
+                command = program;
+                commandArgs = args;
+            }
+            break;
+    }
+
+    if (!command && config.request === 'attach') {
+        throw new Error(`Configuration "${config.name}" attaches to a running process and has nothing to run`);
+    }
+    if (!command) {
+        throw new Error(`Configuration "${config.name}" has no program, module or runtime to run`);
+    }
+
+    return {
+        command,
+        args: commandArgs,
+        cwd: config.cwd,
+        env: toEnv(config.env)
+    };
+}
+
+/** Shell families that quote arguments differently */
+export type ShellKind = 'posix' | 'powershell' | 'cmd';
+
+/** Arguments made only of these characters mean the same to every shell unquoted */
+const SAFE_ARGUMENT = /^[\w@%+=:,./\\-]+$/;
+
+/**
+ * Shell family of a shell executable path such as `/bin/zsh` or `C:\\...\\pwsh.exe`
+ */
+export function getShellKind(shellPath: string | undefined): ShellKind {
+    const name = (shellPath || '').split(/[\/\\]/).pop()?.toLowerCase() || '';
+    if (/^(pwsh|powershell)(\.exe)?$/.test(name)) {
+        return 'powershell';
+    }
+    return /^cmd(\.exe)?$/.test(name) ? 'cmd' : 'posix';
+}
+
+/**
+ * Quote one argument so the shell passes it through unchanged, including empty arguments.
+ * cmd has no way to escape `%` inside quotes, so environment references there still expand.
+ */
+export function quoteShellArgument(arg: string, shell: ShellKind): string {
+    if (SAFE_ARGUMENT.test(arg) && !(shell === 'posix' && arg.includes('\\'))) {
+        return arg;
+    }
+    switch (shell) {
+        case 'powershell':
+            return `'${arg.replace(/'/g, "''")}'`;
+        case 'cmd':
+            return `"${arg.replace(/"/g, '""')}"`;
+        default:
+            return `'${arg.replace(/'/g, "'\\''")}'`;
+    }
+}
+
+/**
+ * Command line for a template with every part quoted for the given shell. PowerShell
+ * needs the call operator to run a quoted command.
+ */
+export function formatShellCommand(template: CommandTemplate, shell: ShellKind): string {
+    const command = quoteShellArgument(template.command, shell);
+    const parts = [shell === 'powershell' && command !== template.command ? `& ${command}` : command];
+    for (const arg of template.args || []) {
+        parts.push(quoteShellArgument(arg, shell));
+    }
+    return parts.join(' ');
+}
+
+/**
+ * Parse a dotenv-style file: KEY=VALUE lines, optional `export`, quotes and # comments
+ */
+export function parseEnvFile(text: string): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const match = /^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/.exec(line);
+        if (!match) {
+            continue;
+        }
+
+        let value = match[2].trim();
+        const quote = value.charAt(0);
+        if ((quote === '"' || quote === '\'') && value.endsWith(quote) && value.length >= 2) {
+            value = value.slice(1, -1);
+            if (quote === '"') {
+                value = value.replace(/\\n/g, '\n');
+            }
+        } else {
+            value = value.replace(/\s+#.*$/, '');
+        }
+        env[match[1]] = value;
+    }
+    return env;
+}
+
+/**
+ * Replace `${name}` references that have a known value; anything else is left for the shell
+ */
+export function substituteVariables(value: string, variables: Record<string, string | undefined>): string {
+    return value.replace(/\$\{([^}]+)\}/g, (reference, name: string) => variables[name] ?? reference);
+}
+
+/**
+ * Apply {@link substituteVariables} to every part of a command template
+ */
+export function resolveCommandTemplate(template: CommandTemplate, variables: Record<string, string | undefined>): CommandTemplate {
+    const resolve = (value: string) => substituteVariables(value, variables);
+    return {
+        ...template,
+        command: resolve(template.command),
+        args: template.args?.map(resolve),
+        cwd: template.cwd ? resolve(template.cwd) : undefined,
+        env: template.env
+            ? Object.fromEntries(Object.entries(template.env).map(([key, value]) => [key, resolve(value)]))
+            : undefined
+    };
+}
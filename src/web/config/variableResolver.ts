@@ -0,0 +1,138 @@
+// Static substitution of VS Code variables in launch configurations, for previewing
+
+/**
+ * What the variables of a configuration can be resolved against
+ */
+export interface VariableContext {
+    /** Predefined variables such as workspaceFolder or file; undefined values cannot be resolved */
+    variables: Record<string, string | undefined>;
+    /** Values of `${workspaceFolder:name}` by folder name */
+    folders?: Record<string, string>;
+    /** Environment of the extension host, when it is readable */
+    env?: Record<string, string | undefined>;
+    /** Read a setting for `${config:section.key}` */
+    config?: (key: string) => unknown;
+}
+
+/**
+ * Part of a resolved string: plain text, or a variable left as written with the reason it stayed
+ */
+export interface ResolvedSegment {
+    text: string;
+    unresolved?: string;
+}
+
+/**
+ * A string leaf of a configuration, addressed like `args[0]` or `env.PORT`
+ */
+export interface ResolvedProperty {
+    path: string;
+    original: string;
+    segments: ResolvedSegment[];
+}
+
+const VARIABLE = /\$\{([^}]+)\}/g;
+
+/**
+ * Value of one variable reference, or the reason it cannot be known before launch
+ */
+function resolveVariable(name: string, context: VariableContext): { value?: string; reason?: string } {
+    const colon = name.indexOf(':');
+    if (colon === -1) {
+        if (!(name in context.variables)) {
+            return { reason: `Unknown variable "${name}"` };
+        }
+        const value = context.variables[name];
+        return value !== undefined ? { value } : { reason: `No value for "${name}" in the current workspace and editor` };
+    }
+
+    const scheme = name.slice(0, colon);
+    const argument = name.slice(colon + 1);
+    switch (scheme) {
+        case 'env': {
+            if (!context.env) {
+                return { reason: 'Environment variables are only known when the session starts' };
+            }
+            // VS Code resolves unset environment variables to an empty string
+            return { value: context.env[argument] ?? '' };
+        }
+        case 'config': {
+            const value = context.config?.(argument);
+            if (value === undefined || value === null) {
+                return { reason: `Setting "${argument}" is not set` };
+            }
+            return typeof value === 'object'
+                ? { reason: `Setting "${argument}" is not a string` }
+                : { value: String(value) };
+        }
+        case 'workspaceFolder':
+        case 'workspaceFolderBasename': {
+            const folder = context.folders?.[argument];
+            if (folder === undefined) {
+                return { reason: `No workspace folder named "${argument}"` };
+            }
+            return { value: scheme === 'workspaceFolder' ? folder : argument };
+        }
+        case 'input':
+            return { reason: `Input "${argument}" is asked for when the session starts` };
+        case 'command':
+            return { reason: `Command "${argument}" runs when the session starts` };
+        default:
+            return { reason: `Unknown variable "${name}"` };
+    }
+}
+
+/**
+ * Substitute every variable of a string that can be known statically
+ */
+export function resolveString(value: string, context: VariableContext): ResolvedSegment[] {
+    const segments: ResolvedSegment[] = [];
+    let text = '';
+    let last = 0;
+
+    for (const match of value.matchAll(VARIABLE)) {
+        const index = match.index ?? 0;
+        text += value.slice(last, index);
+        last = index + match[0].length;
+
+        const resolved = resolveVariable(match[1], context);
+        if (resolved.value !== undefined) {
+            text += resolved.value;
+        } else {
+            if (text) {
+                segments.push({ text });
+                text = '';
+            }
+            segments.push({ text: match[0], unresolved: resolved.reason });
+        }
+    }
+
+    text += value.slice(last);
+    if (text || segments.length === 0) {
+        segments.push({ text });
+    }
+    return segments;
+}
+
+/**
+ * Resolve every string in a configuration, listing its leaves in property order.
+ * Values that are not strings are shown as JSON and never contain variables.
+ */
+export function resolveConfiguration(config: Record<string, unknown>, context: VariableContext): ResolvedProperty[] {
+    const properties: ResolvedProperty[] = [];
+    const visit = (value: unknown, path: string) => {
+        if (typeof value === 'string') {
+            properties.push({ path, original: value, segments: resolveString(value, context) });
+        } else if (Array.isArray(value) && value.length > 0) {
+            value.forEach((item, index) => visit(item, `${path}[${index}]`));
+        } else if (value && typeof value === 'object' && Object.keys(value).length > 0) {
+            Object.entries(value).forEach(([key, item]) => visit(item, path ? `${path}.${key}` : key));
+        } else {
+            const text = JSON.stringify(value) ?? '';
+            properties.push({ path, original: text, segments: [{ text }] });
+        }
+    };
+
+    Object.entries(config).forEach(([key, value]) => visit(value, key));
+    return properties;
+}
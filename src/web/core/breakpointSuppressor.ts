@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { LaunchCompound, LaunchConfiguration } from './types';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('Breakpoints');
+
+/**
+ * Copy a breakpoint with a different enabled state. Breakpoints are immutable, so
+ * enablement can only change by replacing them.
+ */
+function withEnabled(breakpoint: vscode.Breakpoint, enabled: boolean): vscode.Breakpoint | undefined {
+    if (breakpoint instanceof vscode.SourceBreakpoint) {
+        return new vscode.SourceBreakpoint(breakpoint.location, enabled, breakpoint.condition, breakpoint.hitCondition, breakpoint.logMessage);
+    }
+    if (breakpoint instanceof vscode.FunctionBreakpoint) {
+        return new vscode.FunctionBreakpoint(breakpoint.functionName, enabled, breakpoint.condition, breakpoint.hitCondition, breakpoint.logMessage);
+    }
+    // Data and instruction breakpoints cannot be recreated through the API
+    return undefined;
+}
+
+/**
+ * Disables the enabled breakpoints while at least one run is active and re-enables exactly
+ * those afterwards. Breakpoints the user adds, removes or re-enables meanwhile are left alone.
+ */
+class BreakpointSuppressor {
+    private holders = 0;
+    /** Ids of the disabled stand-ins that replaced enabled breakpoints */
+    private disabledIds = new Set<string>();
+
+    acquire(): void {
+        this.holders++;
+        if (this.holders > 1) {
+            return;
+        }
+
+        const originals: vscode.Breakpoint[] = [];
+        const replacements: vscode.Breakpoint[] = [];
+        for (const breakpoint of vscode.debug.breakpoints.filter(candidate => candidate.enabled)) {
+            const replacement = withEnabled(breakpoint, false);
+            if (replacement) {
+                originals.push(breakpoint);
+                replacements.push(replacement);
+            }
+        }
+
+        vscode.debug.removeBreakpoints(originals);
+        vscode.debug.addBreakpoints(replacements);
+        this.disabledIds = new Set(replacements.map(breakpoint => breakpoint.id));
+        log.debug(`Suppressed ${replacements.length} breakpoints`);
+    }
+
+    release(): void {
+        this.holders = Math.max(0, this.holders - 1);
+        if (this.holders > 0) {
+            return;
+        }
+
+        const stillDisabled = vscode.debug.breakpoints.filter(breakpoint => this.disabledIds.has(breakpoint.id) && !breakpoint.enabled);
+        vscode.debug.removeBreakpoints(stillDisabled);
+        vscode.debug.addBreakpoints(stillDisabled.map(breakpoint => withEnabled(breakpoint, true)!));
+        this.disabledIds.clear();
+        log.debug(`Restored ${stillDisabled.length} breakpoints`);
+    }
+}
+
+const suppressor = new BreakpointSuppressor();
+
+/**
+ * Start a run with breakpoints suppressed, restoring them once every session it
+ * spawned (all members, for a compound) has terminated
+ */
+export async function runWithBreakpointsSuppressed(
+    config: LaunchConfiguration | LaunchCompound,
+    start: () => Thenable<boolean>
+): Promise<boolean> {
+    const names = new Set('configurations' in config
+        ? (config as LaunchCompound).configurations.map(member => typeof member === 'string' ? member : member.name)
+        : [config.name]);
+    const sessionIds = new Set<string>();
+    const endedIds = new Set<string>();
+    let launched = false;
+    let released = false;
+
+    const release = () => {
+        if (!released) {
+            released = true;
+            listeners.dispose();
+            suppressor.release();
+        }
+    };
+    // Done once the run's sessions have all ended; "none seen yet" is not "all ended"
+    const releaseIfDone = () => {
+        if (launched && sessionIds.size > 0 && Array.from(sessionIds).every(id => endedIds.has(id))) {
+            release();
+        }
+    };
+
+    const listeners = vscode.Disposable.from(
+        vscode.debug.onDidStartDebugSession(session => {
+            // Resolvers may rename a configuration, so top-level sessions starting while the
+            // launch is pending belong to the run as well as those matching a name
+            if (!session.parentSession && (!launched || names.has(session.configuration.name))) {
+                sessionIds.add(session.id);
+            }
+        }),
+        vscode.debug.onDidTerminateDebugSession(session => {
+            if (sessionIds.has(session.id)) {
+                endedIds.add(session.id);
+                releaseIfDone();
+            }
+        })
+    );
+
+    suppressor.acquire();
+    try {
+        const started = await start();
+        launched = true;
+        if (!started) {
+            release();
+            return started;
+        }
+
+        // Fall back to the session the launch made active
+        const active = vscode.debug.activeDebugSession;
+        if (sessionIds.size === 0 && active && !active.parentSession) {
+            sessionIds.add(active.id);
+        }
+        if (sessionIds.size === 0) {
+            log.debug(`No session found for "${config.name}"; restoring breakpoints`);
+            release();
+        } else {
+            releaseIfDone();
+        }
+        return started;
+    } catch (error) {
+        release();
+        throw error;
+    }
+}
@@ -2,9 +2,13 @@ import * as vscode from 'vscode';
 import { ConfigurationGenerator, ConfigurationTarget } from '../config/configurationGenerator';
 import { CommandGenerator, SymbolDetector, SymbolInfo } from '../config/debugCommandGenerator';
 import { languageRegistry } from '../modules/registry';
+import { applyRenameEdit, createRenameEdit } from './renameConfiguration';
+import { startRun } from './runLauncher';
+import { runInTerminal } from './terminalRunner';
 import { ConfigurationEditor } from '../views/configurationEditor';
-import { DebugConfigurationItem, DebugConfigurationProvider, DebugErrorItem } from '../views/debugPanel';
-import { LaunchConfiguration } from './types';
+import { DebugConfigurationItem, DebugConfigurationProvider, DebugErrorItem, DebugHistoryItem, DebugSyntaxErrorItem, DebugSyntaxErrorsItem, DebugTreeItem, LaunchFileItem, LaunchScope } from '../views/debugPanel';
+import { CompoundMember, LaunchCompound, LaunchConfiguration, RunHistoryEntry, SessionMode } from './types';
+import { makeUniqueName, NameSuffixStyle } from '../util/uniqueName';
 import { createModuleLogger } from '../util/logger';
 
 const log = createModuleLogger('Commands');
@@ -12,7 +16,7 @@ const log = createModuleLogger('Commands');
 export function registerCommandHandlers(
     context: vscode.ExtensionContext,
     provider: DebugConfigurationProvider,
-    treeView: vscode.TreeView<DebugConfigurationItem | DebugErrorItem>,
+    treeView: vscode.TreeView<DebugTreeItem>,
     outputChannel: vscode.OutputChannel
 ): void {
 
@@ -48,7 +52,8 @@ export function registerCommandHandlers(
             const action = await vscode.window.showQuickPick([
                 { label: '$(gear) Create', description: `Create debug configuration`, value: 'create' },
                 { label: '$(run) Create and Run', description: `Create debug configuration and run it`, value: 'create-and-run' },
-                { label: '$(debug) Create and Debug', description: `Create debug configuration and debug it`, value: 'create-and-debug' }
+                { label: '$(debug) Create and Debug', description: `Create debug configuration and debug it`, value: 'create-and-debug' },
+                { label: '$(terminal) Run in Terminal', description: `Run the command without a debug adapter`, value: 'run-in-terminal' }
             ], {
                 placeHolder: `Generated ${commandType} command: ${formattedCommand}`,
                 title: `${commandType === 'run' ? 'Run' : 'Debug'} Command for "${symbol.name}"`
@@ -68,6 +73,9 @@ export function registerCommandHandlers(
                 case 'create-and-debug':
                     await createAndDebugConfiguration(commandTemplate, symbol, provider);
                     break;
+                case 'run-in-terminal':
+                    await runSymbolInTerminal(commandTemplate, symbol, provider);
+                    break;
             }
 
         } catch (error) {
@@ -77,6 +85,15 @@ export function registerCommandHandlers(
         }
     }
 
+    /**
+     * Run the configuration generated for a symbol in a terminal, without saving it
+     */
+    async function runSymbolInTerminal(commandTemplate: any, symbol: SymbolInfo, debugProvider: DebugConfigurationProvider): Promise<void> {
+        const debugConfig = await CommandGenerator.createDebugConfiguration(commandTemplate, symbol);
+        const scope = getScopeForFile(symbol.filePath, debugProvider);
+        await runInTerminal(debugConfig, scope?.folder);
+    }
+
     /**
      * Type guard to check if an item is a DebugConfigurationItem
      */
@@ -98,15 +115,42 @@ export function registerCommandHandlers(
         return configs.length === 1 && configs[0] && isDebugErrorItem(configs[0]);
     }
 
+    /**
+     * Ask which launch.json to target when the workspace has more than one
+     */
+    async function pickLaunchScope(debugProvider: DebugConfigurationProvider): Promise<LaunchScope | undefined> {
+        const scopes = debugProvider.getLaunchScopes();
+        if (scopes.length <= 1) {
+            return scopes[0];
+        }
+
+        const selected = await vscode.window.showQuickPick(scopes.map(scope => ({
+            label: scope.folder ? `$(root-folder) ${scope.label}` : `$(multiple-windows) ${scope.label}`,
+            description: vscode.workspace.asRelativePath(scope.uri),
+            scope
+        })), {
+            placeHolder: 'Select where to store the configuration'
+        });
+
+        return selected?.scope;
+    }
+
+    /**
+     * Resolve the launch scope owning a file, falling back to the default scope
+     */
+    function getScopeForFile(filePath: string, debugProvider: DebugConfigurationProvider): LaunchScope | undefined {
+        return debugProvider.getScopeForUri(vscode.Uri.file(filePath)) || debugProvider.getDefaultScope();
+    }
+
     /**
      * Generate a unique configuration name by adding suffix based on user preference
      */
-    async function generateUniqueConfigurationName(baseName: string, debugProvider: DebugConfigurationProvider): Promise<string | null> {
+    async function generateUniqueConfigurationName(baseName: string, debugProvider: DebugConfigurationProvider, scope?: LaunchScope): Promise<string | null> {
         const config = vscode.workspace.getConfiguration('tingly.debug');
-        const suffixStyle = config.get<string>('nameCollisionSuffixStyle', 'index');
+        const suffixStyle = config.get<NameSuffixStyle>('nameCollisionSuffixStyle', 'index');
 
         try {
-            const existingConfigs = await debugProvider.getConfigurations();
+            const existingConfigs = await debugProvider.getConfigurations(scope);
 
             // Check if there's an error in the configurations
             if (hasConfigurationError(existingConfigs)) {
@@ -117,36 +161,7 @@ export function registerCommandHandlers(
 
             const existingNames = new Set(existingConfigs.filter(isDebugConfigurationItem).map(item => item.config.name));
 
-            if (suffixStyle === 'timestamp') {
-                // Try timestamp suffix first
-                const now = new Date();
-                const timestamp = now.getFullYear() +
-                    String(now.getMonth() + 1).padStart(2, '0') +
-                    String(now.getDate()).padStart(2, '0') + '-' +
-                    String(now.getHours()).padStart(2, '0') +
-                    String(now.getMinutes()).padStart(2, '0') +
-                    String(now.getSeconds()).padStart(2, '0');
-
-                const timestampName = `${baseName}-${timestamp}`;
-                if (!existingNames.has(timestampName)) {
-                    return timestampName;
-                }
-            }
-
-            // Fallback to index suffix (or use it directly if configured)
-            let counter = 1;
-            while (true) {
-                const indexedName = `${baseName} - ${counter}`;
-                if (!existingNames.has(indexedName)) {
-                    return indexedName;
-                }
-                counter++;
-
-                // Prevent infinite loop
-                if (counter > 9999) {
-                    throw new Error('Unable to generate unique configuration name after many attempts');
-                }
-            }
+            return makeUniqueName(baseName, existingNames, suffixStyle);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to generate unique configuration name: ${error}`);
             return null;
@@ -158,10 +173,11 @@ export function registerCommandHandlers(
      */
     async function createDebugConfigurationAndOpen(commandTemplate: any, symbol: SymbolInfo, debugProvider: DebugConfigurationProvider): Promise<void> {
         const originalConfig = await CommandGenerator.createDebugConfiguration(commandTemplate, symbol);
+        const scope = getScopeForFile(symbol.filePath, debugProvider);
 
         try {
             // Check for existing configuration with the same name
-            const existingConfigs = await debugProvider.getConfigurations();
+            const existingConfigs = await debugProvider.getConfigurations(scope);
 
             // Check if there's an error reading configurations
             if (hasConfigurationError(existingConfigs)) {
@@ -184,11 +200,11 @@ export function registerCommandHandlers(
 
                 switch (action?.value) {
                     case 'open-existing':
-                        await ConfigurationEditor.openConfigurationEditor(existingConfig.config, debugProvider);
+                        await ConfigurationEditor.openConfigurationEditor(existingConfig.config, debugProvider, scope);
                         return;
                     case 'create-new':
                         // Generate unique name and create new config
-                        const uniqueName = await generateUniqueConfigurationName(originalConfig.name, debugProvider);
+                        const uniqueName = await generateUniqueConfigurationName(originalConfig.name, debugProvider, scope);
                         if (!uniqueName) {
                             return; // User cancelled
                         }
@@ -201,13 +217,13 @@ export function registerCommandHandlers(
             }
 
             // Create the configuration
-            await debugProvider.addConfiguration(originalConfig);
+            await debugProvider.addConfiguration(originalConfig, true, scope);
             vscode.window.showInformationMessage(`Debug configuration "${originalConfig.name}" created successfully!`);
 
             // Open the newly created configuration after a short delay to ensure UI updates
             setTimeout(async () => {
                 try {
-                    const configItems = await debugProvider.getConfigurations();
+                    const configItems = await debugProvider.getConfigurations(scope);
 
                     // Check if there's an error reading configurations
                     if (hasConfigurationError(configItems)) {
@@ -217,7 +233,7 @@ export function registerCommandHandlers(
 
                     const createdItem = configItems.filter(isDebugConfigurationItem).find(item => item.config.name === originalConfig.name);
                     if (createdItem) {
-                        await ConfigurationEditor.openConfigurationEditor(createdItem.config, debugProvider);
+                        await ConfigurationEditor.openConfigurationEditor(createdItem.config, debugProvider, scope);
                     }
                 } catch (error) {
                     log.error('Failed to open configuration editor:', error);
@@ -233,10 +249,11 @@ export function registerCommandHandlers(
      */
     async function createAndRunConfiguration(commandTemplate: any, symbol: SymbolInfo, debugProvider: DebugConfigurationProvider): Promise<void> {
         let debugConfig = await CommandGenerator.createDebugConfiguration(commandTemplate, symbol);
+        const scope = getScopeForFile(symbol.filePath, debugProvider);
 
         try {
             // Check for existing configuration with the same name
-            const existingConfigs = await debugProvider.getConfigurations();
+            const existingConfigs = await debugProvider.getConfigurations(scope);
 
             // Check if there's an error reading configurations
             if (hasConfigurationError(existingConfigs)) {
@@ -263,12 +280,12 @@ export function registerCommandHandlers(
                         break;
                     case 'create-new':
                         // Generate unique name and create new config
-                        const uniqueName = await generateUniqueConfigurationName(debugConfig.name, debugProvider);
+                        const uniqueName = await generateUniqueConfigurationName(debugConfig.name, debugProvider, scope);
                         if (!uniqueName) {
                             return; // User cancelled
                         }
                         debugConfig.name = uniqueName;
-                        await debugProvider.addConfiguration(debugConfig);
+                        await debugProvider.addConfiguration(debugConfig, true, scope);
                         break;
                     case 'cancel':
                     default:
@@ -276,7 +293,7 @@ export function registerCommandHandlers(
                 }
             } else {
                 // Create the configuration
-                await debugProvider.addConfiguration(debugConfig);
+                await debugProvider.addConfiguration(debugConfig, true, scope);
             }
 
             vscode.window.showInformationMessage(`Debug configuration "${debugConfig.name}" created and running!`);
@@ -284,13 +301,10 @@ export function registerCommandHandlers(
             // Run the configuration immediately after creation
             setTimeout(async () => {
                 try {
-                    // Disable all breakpoints for run mode
-                    await vscode.commands.executeCommand('workbench.debug.viewlet.action.disableAllBreakpoints');
-
+                    // Run without debugging; adapters lacking noDebug get breakpoints suppressed instead
                     // Pass the workspace folder to allow VS Code to resolve ${workspaceFolder} variables
-                    const workspaceFolders = vscode.workspace.workspaceFolders;
-                    const workspaceFolder = workspaceFolders?.[0] || undefined;
-                    await vscode.debug.startDebugging(workspaceFolder, debugConfig);
+                    debugProvider.trackLaunch(debugConfig, 'run', scope);
+                    await startRun(scope?.folder, debugConfig);
                 } catch (error) {
                     log.error('Failed to start debug session:', error);
                     vscode.window.showErrorMessage(`Failed to run configuration: ${error}`);
@@ -306,10 +320,11 @@ export function registerCommandHandlers(
      */
     async function createAndDebugConfiguration(commandTemplate: any, symbol: SymbolInfo, debugProvider: DebugConfigurationProvider): Promise<void> {
         let debugConfig = await CommandGenerator.createDebugConfiguration(commandTemplate, symbol);
+        const scope = getScopeForFile(symbol.filePath, debugProvider);
 
         try {
             // Check for existing configuration with the same name
-            const existingConfigs = await debugProvider.getConfigurations();
+            const existingConfigs = await debugProvider.getConfigurations(scope);
 
             // Check if there's an error reading configurations
             if (hasConfigurationError(existingConfigs)) {
@@ -336,12 +351,12 @@ export function registerCommandHandlers(
                         break;
                     case 'create-new':
                         // Generate unique name and create new config
-                        const uniqueName = await generateUniqueConfigurationName(debugConfig.name, debugProvider);
+                        const uniqueName = await generateUniqueConfigurationName(debugConfig.name, debugProvider, scope);
                         if (!uniqueName) {
                             return; // User cancelled
                         }
                         debugConfig.name = uniqueName;
-                        await debugProvider.addConfiguration(debugConfig);
+                        await debugProvider.addConfiguration(debugConfig, true, scope);
                         break;
                     case 'cancel':
                     default:
@@ -349,7 +364,7 @@ export function registerCommandHandlers(
                 }
             } else {
                 // Create the configuration
-                await debugProvider.addConfiguration(debugConfig);
+                await debugProvider.addConfiguration(debugConfig, true, scope);
             }
 
             vscode.window.showInformationMessage(`Debug configuration "${debugConfig.name}" created and debugging!`);
@@ -357,13 +372,9 @@ export function registerCommandHandlers(
             // Debug the configuration immediately after creation
             setTimeout(async () => {
                 try {
-                    // Enable all breakpoints for debug mode
-                    await vscode.commands.executeCommand('workbench.debug.viewlet.action.enableAllBreakpoints');
-
                     // Pass the workspace folder to allow VS Code to resolve ${workspaceFolder} variables
-                    const workspaceFolders = vscode.workspace.workspaceFolders;
-                    const workspaceFolder = workspaceFolders?.[0] || undefined;
-                    await vscode.debug.startDebugging(workspaceFolder, debugConfig);
+                    debugProvider.trackLaunch(debugConfig, 'debug', scope);
+                    await vscode.debug.startDebugging(scope?.folder, debugConfig);
                 } catch (error) {
                     log.error('Failed to start debug session:', error);
                     vscode.window.showErrorMessage(`Failed to debug configuration: ${error}`);
@@ -386,8 +397,11 @@ export function registerCommandHandlers(
                 progress.report({ increment: 0, message: "Reading launch.json..." });
 
                 try {
-                    // Force re-read of launch.json file
-                    const configurations = await provider.getConfigurations();
+                    // Force re-read of every launch.json in the workspace
+                    const configurations: LaunchFileItem[] = [];
+                    for (const scope of provider.getLaunchScopes()) {
+                        configurations.push(...await provider.getConfigurations(scope));
+                    }
 
                     progress.report({ increment: 50, message: "Updating configuration list..." });
 
@@ -397,8 +411,13 @@ export function registerCommandHandlers(
                     progress.report({ increment: 100, message: "Complete!" });
 
                     // Show success message with configuration count
-                    if (hasConfigurationError(configurations)) {
-                        vscode.window.showErrorMessage(`Failed to load debug configurations: ${configurations[0].config.error.message}`);
+                    const errorItem = configurations.find(isDebugErrorItem);
+                    const syntaxErrors = configurations.filter((item): item is DebugSyntaxErrorsItem => item instanceof DebugSyntaxErrorsItem);
+                    if (errorItem) {
+                        vscode.window.showErrorMessage(`Failed to load debug configurations: ${errorItem.config.error.message}`);
+                    } else if (syntaxErrors.length > 0) {
+                        const errorCount = syntaxErrors.reduce((count, item) => count + item.errors.length, 0);
+                        vscode.window.showWarningMessage(`launch.json has ${errorCount} syntax error${errorCount === 1 ? '' : 's'}; configurations containing them are hidden until fixed.`);
                     } else {
                         const configCount = configurations.length;
                         const message = configCount === 0
@@ -486,6 +505,11 @@ export function registerCommandHandlers(
             return;
         }
 
+        const scope = await pickLaunchScope(provider);
+        if (!scope) {
+            return;
+        }
+
         const newConfig: LaunchConfiguration = {
             name: name,
             type: configType,
@@ -493,7 +517,7 @@ export function registerCommandHandlers(
         };
 
         try {
-            await provider.addConfiguration(newConfig);
+            await provider.addConfiguration(newConfig, true, scope);
             vscode.window.showInformationMessage(`Configuration "${name}" created successfully!`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to create configuration: ${error}`);
@@ -502,55 +526,237 @@ export function registerCommandHandlers(
 
     // Edit configuration command
     const editCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.edit', async (item: DebugConfigurationItem) => {
-        await ConfigurationEditor.openConfigurationEditor(item.config, provider);
+        await ConfigurationEditor.openConfigurationEditor(item.config, provider, item.scope);
     });
 
     // Delete configuration command
     const deleteCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.delete', async (item: DebugConfigurationItem) => {
+        const kind = 'configurations' in item.config ? 'compound' : 'configuration';
         const result = await vscode.window.showWarningMessage(
-            `Are you sure you want to delete configuration "${item.config.name}"?`,
+            `Are you sure you want to delete ${kind} "${item.config.name}"?`,
             'Delete',
             'Cancel'
         );
 
         if (result === 'Delete') {
             try {
-                await provider.deleteConfiguration(item.config.name);
-                vscode.window.showInformationMessage(`Configuration "${item.config.name}" deleted successfully!`);
+                if (kind === 'compound') {
+                    await provider.deleteCompound(item.config.name, item.scope);
+                } else {
+                    await provider.deleteConfiguration(item.config.name, item.scope);
+                }
+                vscode.window.showInformationMessage(`${kind === 'compound' ? 'Compound' : 'Configuration'} "${item.config.name}" deleted successfully!`);
             } catch (error) {
-                vscode.window.showErrorMessage(`Failed to delete configuration: ${error}`);
+                vscode.window.showErrorMessage(`Failed to delete ${kind}: ${error}`);
             }
         }
     });
 
+    // Rename configuration command: updates references and previews every edit first
+    const renameCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.rename', async (item: DebugConfigurationItem) => {
+        try {
+            const oldName = item.config.name;
+            const siblings = await provider.getConfigurations(item.scope);
+            const existingNames = new Set(siblings.filter(isDebugConfigurationItem).map(sibling => sibling.config.name));
+
+            const input = await vscode.window.showInputBox({
+                title: `Rename "${oldName}"`,
+                prompt: 'References in compounds, serverReadyAction and tasks are updated too',
+                value: oldName,
+                validateInput: value => {
+                    const name = value.trim();
+                    if (!name) {
+                        return 'Name cannot be empty';
+                    }
+                    return name !== oldName && existingNames.has(name) ? `"${name}" already exists` : undefined;
+                }
+            });
+            const newName = input?.trim();
+            if (!newName || newName === oldName) {
+                return;
+            }
+
+            if ('configurations' in item.config) {
+                // Nothing references compounds by name, so only the compound itself changes
+                await provider.updateConfiguration(oldName, { ...item.config, name: newName }, item.scope);
+            } else {
+                const edit = await createRenameEdit(provider, item.config as LaunchConfiguration, item.scope, newName);
+                if (!await applyRenameEdit(edit)) {
+                    return;
+                }
+                await provider.pins?.rename(oldName, newName, (item.scope || provider.getDefaultScope())?.uri.toString());
+                provider.refresh();
+            }
+            vscode.window.showInformationMessage(`Renamed "${oldName}" to "${newName}"`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to rename configuration: ${errorMessage}`);
+        }
+    });
+
     // Duplicate configuration command
     const duplicateCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.duplicate', async (item: DebugConfigurationItem) => {
         try {
-            await provider.duplicateConfiguration(item.config);
+            await provider.duplicateConfiguration(item.config, item.scope);
             vscode.window.showInformationMessage(`Configuration "${item.config.name}" duplicated successfully!`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to duplicate configuration: ${error}`);
         }
     });
 
+    // Create compound from the configurations selected in the tree
+    const createCompoundCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.createCompound', async (item?: DebugTreeItem, selectedItems?: DebugTreeItem[]) => {
+        // Context menus pass the clicked item plus the whole selection; the command palette passes nothing
+        const selection = selectedItems && selectedItems.length > 0 ? selectedItems : (item ? [item] : [...treeView.selection]);
+        const members = selection.filter(isDebugConfigurationItem);
+
+        if (members.length < 2) {
+            vscode.window.showWarningMessage('Select at least two configurations to create a compound.');
+            return;
+        }
+
+        // Store the compound next to its members; a selection spanning folders needs an explicit target
+        const memberScopes = new Set(members.map(member => member.scope?.uri.toString()));
+        const scope = memberScopes.size === 1 ? (members[0].scope || provider.getDefaultScope()) : await pickLaunchScope(provider);
+        if (!scope) {
+            return;
+        }
+
+        const compoundMembers: CompoundMember[] = [];
+        for (const member of members) {
+            if (!member.scope || member.scope.uri.toString() === scope.uri.toString()) {
+                compoundMembers.push(member.config.name);
+            } else if (member.scope.folder) {
+                compoundMembers.push({ name: member.config.name, folder: member.scope.folder.name });
+            } else {
+                vscode.window.showErrorMessage(`Cannot reference workspace-level configuration "${member.config.name}" from ${scope.label}.`);
+                return;
+            }
+        }
+
+        try {
+            const launchJson = await provider.readLaunchJson(scope);
+            const existingNames = new Set(
+                [...(launchJson.configurations || []), ...(launchJson.compounds || [])].map(existing => existing.name)
+            );
+
+            const name = await vscode.window.showInputBox({
+                prompt: 'Compound name',
+                value: members.map(member => member.config.name).join(' + '),
+                validateInput: value => {
+                    if (!value.trim()) {
+                        return 'Compound name cannot be empty';
+                    }
+                    return existingNames.has(value.trim()) ? `"${value.trim()}" already exists` : undefined;
+                }
+            });
+
+            if (name === undefined) {
+                return;
+            }
+
+            await provider.addCompound({ name: name.trim(), configurations: compoundMembers }, scope);
+            vscode.window.showInformationMessage(`Compound "${name.trim()}" created with ${compoundMembers.length} configurations!`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create compound: ${error}`);
+        }
+    });
+
+    /**
+     * Narrow the tree and show the active filter in the view header
+     */
+    function applyTreeFilter(filter: string): void {
+        provider.setFilter(filter);
+        const active = provider.getFilter();
+        treeView.description = active ? `Filter: ${active}` : undefined;
+        treeView.message = active ? `Showing configurations matching "${active}"` : undefined;
+        vscode.commands.executeCommand('setContext', 'tingly.debug.filterActive', !!active);
+    }
+
+    // Filter configurations command: the tree narrows as the user types
+    const filterCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.filter', () => {
+        const previous = provider.getFilter();
+        const input = vscode.window.createInputBox();
+        input.title = 'Filter Configurations';
+        input.placeholder = 'Match name, type, request, program or env variable';
+        input.prompt = 'Separate terms with spaces; every term must match';
+        input.value = previous;
+
+        let accepted = false;
+        input.onDidChangeValue(value => applyTreeFilter(value));
+        input.onDidAccept(() => {
+            accepted = true;
+            input.hide();
+        });
+        input.onDidHide(() => {
+            // Escape keeps the filter that was active before
+            if (!accepted) {
+                applyTreeFilter(previous);
+            }
+            input.dispose();
+        });
+        input.show();
+    });
+
+    // Clear filter command
+    const clearFilterCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.clearFilter', () => {
+        applyTreeFilter('');
+    });
+
+    // Select a launch file syntax error listed in the tree
+    const goToSyntaxErrorCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.goToSyntaxError', async (item: DebugSyntaxErrorItem) => {
+        try {
+            const document = await vscode.workspace.openTextDocument(item.launchUri);
+            const start = document.positionAt(item.error.offset);
+            const end = document.positionAt(item.error.offset + item.error.length);
+            await vscode.window.showTextDocument(document, { selection: new vscode.Range(start, end) });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open syntax error: ${error}`);
+        }
+    });
+
+    // Pin configuration command
+    const pinCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.pin', async (item: DebugConfigurationItem) => {
+        try {
+            const scope = item.scope || provider.getDefaultScope();
+            await provider.pins?.pin(item.config.name, scope?.uri.toString());
+            provider.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to pin configuration: ${error}`);
+        }
+    });
+
+    // Unpin configuration command
+    const unpinCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.unpin', async (item: DebugConfigurationItem) => {
+        try {
+            const scope = item.scope || provider.getDefaultScope();
+            await provider.pins?.unpin(item.config.name, scope?.uri.toString());
+            provider.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to unpin configuration: ${error}`);
+        }
+    });
+
     // Run configuration command
     const runCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.run', async (item: DebugConfigurationItem) => {
         try {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            const workspaceFolder = workspaceFolders?.[0] || undefined;
+            // Launch against the folder owning the launch.json; undefined targets workspace-level configurations
+            const workspaceFolder = item.scope?.folder;
 
             if ('configurations' in item.config) {
-                // Compound: launch by name — VS Code resolves all member configs
-                await vscode.debug.startDebugging(workspaceFolder, item.config.name);
-                vscode.window.showInformationMessage(`Compound "${item.config.name}" launched!`);
+                // Compound: noDebug only applies when every member's adapter supports it
+                const compound = item.config as LaunchCompound;
+                const members = await provider.resolveCompoundConfigurations(compound, item.scope);
+                provider.trackLaunch(compound, 'run', item.scope);
+                await startRun(workspaceFolder, compound, members?.map(member => member.config));
+                vscode.window.showInformationMessage(`Compound "${item.config.name}" is now running!`);
                 return;
             }
 
-            // Disable all breakpoints for run mode
-            await vscode.commands.executeCommand('workbench.debug.viewlet.action.disableAllBreakpoints');
-
-            await vscode.debug.startDebugging(workspaceFolder, item.config as LaunchConfiguration);
-            vscode.window.showInformationMessage(`Configuration "${item.config.name}" is now running (breakpoints disabled)!`);
+            // Run without debugging; adapters lacking noDebug get breakpoints suppressed instead
+            provider.trackLaunch(item.config, 'run', item.scope);
+            await startRun(workspaceFolder, item.config as LaunchConfiguration);
+            vscode.window.showInformationMessage(`Configuration "${item.config.name}" is now running!`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to start debug session: ${error}`);
         }
@@ -559,27 +765,146 @@ export function registerCommandHandlers(
     // Debug configuration command
     const debugCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.debug', async (item: DebugConfigurationItem) => {
         try {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            const workspaceFolder = workspaceFolders?.[0] || undefined;
+            // Launch against the folder owning the launch.json; undefined targets workspace-level configurations
+            const workspaceFolder = item.scope?.folder;
 
             if ('configurations' in item.config) {
-                // Compound: launch by name with breakpoints enabled
-                await vscode.commands.executeCommand('workbench.debug.viewlet.action.enableAllBreakpoints');
+                // Compound: launch by name
+                provider.trackLaunch(item.config, 'debug', item.scope);
                 await vscode.debug.startDebugging(workspaceFolder, item.config.name);
-                vscode.window.showInformationMessage(`Compound "${item.config.name}" launched (breakpoints enabled)!`);
+                vscode.window.showInformationMessage(`Compound "${item.config.name}" launched!`);
                 return;
             }
 
-            // Enable all breakpoints for debug mode
-            await vscode.commands.executeCommand('workbench.debug.viewlet.action.enableAllBreakpoints');
-
+            provider.trackLaunch(item.config, 'debug', item.scope);
             await vscode.debug.startDebugging(workspaceFolder, item.config as LaunchConfiguration);
-            vscode.window.showInformationMessage(`Configuration "${item.config.name}" is now debugging (breakpoints enabled)!`);
+            vscode.window.showInformationMessage(`Configuration "${item.config.name}" is now debugging!`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to start debug session: ${error}`);
         }
     });
 
+    // Run configuration in terminal command
+    const runInTerminalCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.runInTerminal', async (item: DebugConfigurationItem) => {
+        try {
+            if ('configurations' in item.config) {
+                // Compound: one terminal per member
+                const members = await provider.resolveCompoundConfigurations(item.config as LaunchCompound, item.scope);
+                if (!members) {
+                    vscode.window.showErrorMessage(`Compound "${item.config.name}" has members that cannot be resolved`);
+                    return;
+                }
+                // Members from other folders resolve ${workspaceFolder} against their own folder
+                for (const member of members) {
+                    await runInTerminal(member.config, member.scope.folder);
+                }
+                return;
+            }
+
+            await runInTerminal(item.config as LaunchConfiguration, item.scope?.folder);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to run in terminal: ${errorMessage}`);
+        }
+    });
+
+    /**
+     * Wait until the given sessions have terminated, giving up after a timeout
+     */
+    function waitForTermination(sessions: vscode.DebugSession[], timeoutMs: number = 5000): Promise<void> {
+        const pending = new Set(sessions.map(session => session.id));
+        if (pending.size === 0) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => {
+            const listener = vscode.debug.onDidTerminateDebugSession(session => {
+                pending.delete(session.id);
+                if (pending.size === 0) {
+                    done();
+                }
+            });
+            const timer = setTimeout(done, timeoutMs);
+            function done() {
+                clearTimeout(timer);
+                listener.dispose();
+                resolve();
+            }
+        });
+    }
+
+    // Stop all sessions launched from a configuration or compound
+    const stopCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.stop', async (item: DebugConfigurationItem) => {
+        try {
+            const sessions = await provider.getSessionsForItem(item);
+            await Promise.all(sessions.map(session => vscode.debug.stopDebugging(session)));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to stop debug session: ${error}`);
+        }
+    });
+
+    // Restart a configuration or compound in the mode it is currently running in
+    const restartCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.restart', async (item: DebugConfigurationItem) => {
+        try {
+            const sessions = await provider.getSessionsForItem(item);
+            const mode = sessions.some(session => provider.getSessionMode(session) === 'debug') ? 'debug' : 'run';
+
+            const terminated = waitForTermination(sessions);
+            await Promise.all(sessions.map(session => vscode.debug.stopDebugging(session)));
+            await terminated;
+
+            await vscode.commands.executeCommand(mode === 'run' ? 'tingly.debug.debugConfig.run' : 'tingly.debug.debugConfig.debug', item);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to restart debug session: ${error}`);
+        }
+    });
+
+    /**
+     * Launch a history entry again through the regular run/debug commands
+     */
+    async function replayHistoryEntry(entry: RunHistoryEntry, mode: SessionMode): Promise<void> {
+        try {
+            const scope = provider.getLaunchScopes().find(candidate => candidate.uri.toString() === entry.launchUri)
+                || provider.getDefaultScope();
+            const launchJson = await provider.readLaunchJson(scope);
+            const config = entry.compound
+                ? (launchJson.compounds || []).find(compound => compound.name === entry.name)
+                : (launchJson.configurations || []).find(configuration => configuration.name === entry.name);
+
+            if (!config) {
+                vscode.window.showErrorMessage(`Configuration "${entry.name}" no longer exists.`);
+                return;
+            }
+
+            const item = new DebugConfigurationItem(config, vscode.TreeItemCollapsibleState.None, undefined, scope);
+            await vscode.commands.executeCommand(mode === 'run' ? 'tingly.debug.debugConfig.run' : 'tingly.debug.debugConfig.debug', item);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to replay "${entry.name}": ${error}`);
+        }
+    }
+
+    /**
+     * Replay the most recent launch made in the given mode
+     */
+    async function replayLast(mode: SessionMode): Promise<void> {
+        const entry = provider.history?.getLast(mode);
+        if (!entry) {
+            vscode.window.showInformationMessage(`No configuration has been ${mode === 'run' ? 'run' : 'debugged'} yet.`);
+            return;
+        }
+        await replayHistoryEntry(entry, mode);
+    }
+
+    const rerunLastCommand = vscode.commands.registerCommand('tingly.debug.rerunLast', () => replayLast('run'));
+    const redebugLastCommand = vscode.commands.registerCommand('tingly.debug.redebugLast', () => replayLast('debug'));
+
+    const historyRunCommand = vscode.commands.registerCommand('tingly.debug.history.run', (item: DebugHistoryItem) => replayHistoryEntry(item.entry, 'run'));
+    const historyDebugCommand = vscode.commands.registerCommand('tingly.debug.history.debug', (item: DebugHistoryItem) => replayHistoryEntry(item.entry, 'debug'));
+
+    const historyClearCommand = vscode.commands.registerCommand('tingly.debug.history.clear', async () => {
+        await provider.history?.clear();
+        provider.refresh();
+    });
+
     // Create configuration from current file
     const createFromFileCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.createFromFile', async () => {
         const editor = vscode.window.activeTextEditor;
@@ -592,13 +917,13 @@ export function registerCommandHandlers(
         const language = editor.document.languageId;
         const fileName = currentFile.split(/[\/\\]/).pop() || 'current-file';
 
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
+        const scope = provider.getScopeForUri(editor.document.uri) || provider.getDefaultScope();
+        if (!scope?.folder) {
             vscode.window.showErrorMessage('No workspace folder found');
             return;
         }
 
-        const workspaceRoot = workspaceFolders[0].uri.fsPath;
+        const workspaceRoot = scope.folder.uri.fsPath;
 
         // Check if language is supported by language module system
         const module = languageRegistry.getModule(language);
@@ -657,7 +982,7 @@ export function registerCommandHandlers(
 
         // Safely get existing configurations
         try {
-            configurations = await provider.readConfigurationsOnly();
+            configurations = await provider.readConfigurationsOnly(scope);
         } catch (error) {
             // launch.json doesn't exist, that's fine - we'll create it
             log.debug('No existing launch.json found, creating new one');
@@ -699,7 +1024,12 @@ export function registerCommandHandlers(
         newConfig.name = finalConfigName;
 
         try {
-            await provider.addConfiguration(newConfig);
+            await provider.addConfiguration(newConfig, true, scope);
+            for (const companion of await languageRegistry.generateCompanionConfigs(symbolInfo)) {
+                if (!configurations.some(config => config.name === companion.name)) {
+                    await provider.addConfiguration(companion as LaunchConfiguration, true, scope);
+                }
+            }
 
             const scopeDescription = selectedOption.value === 'symbol'
                 ? `symbol "${symbolInfo.name}"`
@@ -713,10 +1043,10 @@ export function registerCommandHandlers(
             setTimeout(async () => {
                 try {
                     // Find the newly created configuration in the provider
-                    const configItems = await provider.getConfigurations();
+                    const configItems = await provider.getConfigurations(scope);
                     const createdItem = configItems.filter(isDebugConfigurationItem).find(item => item.config.name === finalConfigName);
                     if (createdItem) {
-                        await ConfigurationEditor.openConfigurationEditor(createdItem.config, provider);
+                        await ConfigurationEditor.openConfigurationEditor(createdItem.config, provider, scope);
                     }
                 } catch (error) {
                     log.error('Failed to open configuration editor:', error);
@@ -730,7 +1060,7 @@ export function registerCommandHandlers(
     // Open settings command (using configuration editor)
     const openSettingsCommand = vscode.commands.registerCommand('tingly.debug.debugConfig.openSettings', async (item: DebugConfigurationItem) => {
         log.debug('openSettingsCommand triggered for item:', item.config.name);
-        await ConfigurationEditor.openConfigurationEditor(item.config, provider);
+        await ConfigurationEditor.openConfigurationEditor(item.config, provider, item.scope);
     });
 
     // Generate debug command from symbol (used for both run and debug modes)
@@ -746,12 +1076,27 @@ export function registerCommandHandlers(
     // Register all disposables
     context.subscriptions.push(
         refreshCommand,
+        filterCommand,
+        clearFilterCommand,
+        goToSyntaxErrorCommand,
         addCommand,
         editCommand,
         deleteCommand,
+        renameCommand,
         duplicateCommand,
+        createCompoundCommand,
+        pinCommand,
+        unpinCommand,
         runCommand,
         debugCommand,
+        runInTerminalCommand,
+        stopCommand,
+        restartCommand,
+        rerunLastCommand,
+        redebugLastCommand,
+        historyRunCommand,
+        historyDebugCommand,
+        historyClearCommand,
         createFromFileCommand,
         openSettingsCommand,
         generateDebugCommandCommand,
@@ -759,6 +1104,14 @@ export function registerCommandHandlers(
     );
 }
 
+/**
+ * Get the root of the workspace folder containing a resource, falling back to the first folder
+ */
+function getWorkspaceRootForUri(uri: vscode.Uri): string {
+    const folder = vscode.workspace.getWorkspaceFolder(uri) || vscode.workspace.workspaceFolders?.[0];
+    return folder?.uri.fsPath || '';
+}
+
 /**
  * Show symbol selector when no symbol is selected
  */
@@ -781,8 +1134,7 @@ async function showSymbolSelector(outputChannel: vscode.OutputChannel): Promise<
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         const errorStack = error instanceof Error ? error.stack : undefined;
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        const workspaceRoot = workspaceFolders?.[0]?.uri.fsPath || '';
+        const workspaceRoot = getWorkspaceRootForUri(document.uri);
 
         const documentInfo = {
             uri: document.uri.toString(),
@@ -850,8 +1202,7 @@ async function showSymbolSelector(outputChannel: vscode.OutputChannel): Promise<
         return null;
     }
 
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    const workspaceRoot = workspaceFolders?.[0]?.uri.fsPath || '';
+    const workspaceRoot = getWorkspaceRootForUri(document.uri);
 
     return {
         name: selected.symbol.name,
@@ -966,8 +1317,7 @@ async function handleGenerateDirectoryDebugConfig(uri: vscode.Uri, debugProvider
         }
 
         const directoryPath = uri.fsPath;
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        const workspaceRoot = workspaceFolders?.[0]?.uri.fsPath || '';
+        const workspaceRoot = getWorkspaceRootForUri(uri);
 
         // Get relative path from workspace
         const relativePath = vscode.workspace.asRelativePath(directoryPath);
@@ -998,7 +1348,8 @@ async function handleGenerateDirectoryDebugConfig(uri: vscode.Uri, debugProvider
         const success = await ConfigurationGenerator.createAndSaveConfiguration(
             target,
             selectedFramework,
-            debugProvider
+            debugProvider,
+            debugProvider.getScopeForUri(uri)
         );
 
         if (success) {
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import type { Edit } from 'jsonc-parser';
+import type { LaunchScope } from '../views/debugPanel';
+import type { LaunchDiagnostics } from './launchDiagnostics';
+import { getModificationEdits, getRenamePropertyEdits, parseLaunchTolerant } from '../util/jsoncUtils';
+import { LaunchProblem, validateLaunchText } from '../util/launchValidator';
+import { makeUniqueName, NameSuffixStyle } from '../util/uniqueName';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('CodeActions');
+
+/**
+ * Quick fixes for the launch file problems that have an unambiguous repair. Edits go
+ * through jsonc-parser so comments and formatting around them are kept.
+ */
+export class LaunchCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    constructor(
+        private readonly getLaunchScopes: () => LaunchScope[],
+        private readonly diagnostics: LaunchDiagnostics
+    ) { }
+
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): vscode.CodeAction[] {
+        const scope = this.getLaunchScopes().find(candidate => candidate.uri.toString() === document.uri.toString());
+        if (!scope) {
+            return [];
+        }
+
+        // Validate the text as it is now; published diagnostics may trail unsaved edits
+        const text = document.getText();
+        const problems = validateLaunchText(text, scope.launchPath, { folderConfigurations: this.diagnostics.getFolderConfigurations() })
+            .filter(problem => problem.code && this.toRange(document, problem).intersection(range));
+
+        const actions: vscode.CodeAction[] = [];
+        for (const problem of problems) {
+            try {
+                const action = this.createAction(document, text, scope, problem);
+                if (action) {
+                    actions.push(action);
+                }
+            } catch (error) {
+                log.error(`Failed to create a quick fix for "${problem.message}":`, error);
+            }
+        }
+        return actions;
+    }
+
+    private createAction(document: vscode.TextDocument, text: string, scope: LaunchScope, problem: LaunchProblem): vscode.CodeAction | undefined {
+        switch (problem.code) {
+            case 'duplicateName': {
+                const name = problem.target?.name;
+                if (name === undefined) {
+                    return undefined;
+                }
+                const uniqueName = makeUniqueName(name, this.getExistingNames(text, scope, problem), this.getSuffixStyle(scope));
+                return this.createFix(document, problem, `Rename to "${uniqueName}"`,
+                    getModificationEdits(text, problem.path, uniqueName));
+            }
+            case 'unknownMember':
+                return this.createFix(document, problem, `Remove ${document.getText(this.toRange(document, problem))} from the compound`,
+                    getModificationEdits(text, problem.path, undefined));
+            case 'deprecatedPythonPath':
+                return this.createFix(document, problem, 'Replace "pythonPath" with "python"',
+                    getRenamePropertyEdits(text, problem.path, 'python'), true);
+            case 'deprecatedPythonType':
+                return this.createFix(document, problem, 'Replace type "python" with "debugpy"',
+                    getModificationEdits(text, problem.path, 'debugpy'), true);
+            default:
+                return undefined;
+        }
+    }
+
+    private createFix(document: vscode.TextDocument, problem: LaunchProblem, title: string, edits: Edit[], isPreferred = false): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        for (const edit of edits) {
+            const range = new vscode.Range(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length));
+            action.edit.replace(document.uri, range, edit.content);
+        }
+        action.diagnostics = vscode.languages.getDiagnostics(document.uri).filter(diagnostic =>
+            diagnostic.code === problem.code && diagnostic.range.isEqual(this.toRange(document, problem)));
+        action.isPreferred = isPreferred;
+        return action;
+    }
+
+    /**
+     * Names of the configurations or compounds next to the one being renamed
+     */
+    private getExistingNames(text: string, scope: LaunchScope, problem: LaunchProblem): Set<string> {
+        const launch = parseLaunchTolerant(text, scope.launchPath).launch;
+        const items: any[] = (problem.target?.kind === 'compound' ? launch.compounds : launch.configurations) || [];
+        return new Set(items.map(item => item?.name).filter((name): name is string => typeof name === 'string'));
+    }
+
+    private getSuffixStyle(scope: LaunchScope): NameSuffixStyle {
+        return vscode.workspace.getConfiguration('tingly.debug', scope.folder?.uri).get<NameSuffixStyle>('nameCollisionSuffixStyle', 'index');
+    }
+
+    private toRange(document: vscode.TextDocument, problem: LaunchProblem): vscode.Range {
+        return new vscode.Range(document.positionAt(problem.offset), document.positionAt(problem.offset + problem.length));
+    }
+}
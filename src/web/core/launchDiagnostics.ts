@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import type { LaunchScope } from '../views/debugPanel';
+import { substituteVariables } from '../config/terminalCommand';
+import { parseJSONCConfigurations } from '../util/jsoncUtils';
+import { findProgramReferences, LaunchProblem, LaunchProblemSeverity, LaunchProblemTarget, validateLaunchText } from '../util/launchValidator';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('Diagnostics');
+
+const SEVERITIES: Record<LaunchProblemSeverity, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information
+};
+
+/**
+ * Problems of every launch file published as diagnostics, and kept per item for the tree
+ */
+export class LaunchDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('tingly.debug');
+    /** Problems by launch file URI */
+    private readonly problems = new Map<string, LaunchProblem[]>();
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.onDidChangeEmitter.event;
+    /** Incremented per validation so a slower, older run cannot overwrite a newer one */
+    private generation = 0;
+    /** Configuration names by workspace folder, as of the last validation */
+    private folderConfigurations: Record<string, string[]> = {};
+
+    /**
+     * Validate the launch files of all scopes and replace the published diagnostics
+     */
+    async validate(scopes: LaunchScope[]): Promise<void> {
+        const generation = ++this.generation;
+
+        const documents = new Map<LaunchScope, vscode.TextDocument>();
+        for (const scope of scopes) {
+            try {
+                documents.set(scope, await vscode.workspace.openTextDocument(scope.uri));
+            } catch (error) {
+                log.debug(`No launch file to validate at ${scope.uri.toString()}`);
+            }
+        }
+
+        // Compound members can name configurations of other workspace folders
+        const folderConfigurations: Record<string, string[]> = {};
+        for (const [scope, document] of documents) {
+            if (!scope.folder) {
+                continue;
+            }
+            try {
+                folderConfigurations[scope.folder.name] = parseJSONCConfigurations(document.getText(), scope.launchPath)
+                    .map(config => config?.name)
+                    .filter((name): name is string => typeof name === 'string');
+            } catch (error) {
+                folderConfigurations[scope.folder.name] = [];
+            }
+        }
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            folderConfigurations[folder.name] = folderConfigurations[folder.name] || [];
+        }
+
+        const results = new Map<vscode.TextDocument, LaunchProblem[]>();
+        for (const [scope, document] of documents) {
+            const text = document.getText();
+            results.set(document, [
+                ...validateLaunchText(text, scope.launchPath, { folderConfigurations }),
+                ...await this.checkPrograms(text, scope)
+            ]);
+        }
+
+        if (generation !== this.generation) {
+            return;
+        }
+
+        this.folderConfigurations = folderConfigurations;
+        this.collection.clear();
+        this.problems.clear();
+        for (const [document, problems] of results) {
+            this.problems.set(document.uri.toString(), problems);
+            this.collection.set(document.uri, problems.map(problem => this.toDiagnostic(document, problem)));
+        }
+        this.onDidChangeEmitter.fire();
+    }
+
+    /**
+     * Problems of one configuration or compound, found by name in its launch file
+     */
+    getItemProblems(launchUri: string, kind: LaunchProblemTarget['kind'], name: string): LaunchProblem[] {
+        return (this.problems.get(launchUri) || []).filter(problem =>
+            problem.target?.kind === kind && problem.target.name === name);
+    }
+
+    /**
+     * Configuration names by workspace folder, for validating compound members outside the validation run
+     */
+    getFolderConfigurations(): Record<string, string[]> {
+        return this.folderConfigurations;
+    }
+
+    /**
+     * Warn about launch programs that do not exist. Only paths known without launching are
+     * checked: absolute ones, optionally under `${workspaceFolder}`; relative programs are
+     * resolved by the debug adapter against its own working directory. Programs of
+     * configurations with a preLaunchTask are only noted, as the task may build them.
+     */
+    private async checkPrograms(text: string, scope: LaunchScope): Promise<LaunchProblem[]> {
+        const folderPath = scope.folder?.uri.path;
+        const problems: LaunchProblem[] = [];
+        for (const reference of findProgramReferences(text, scope.launchPath)) {
+            const path = substituteVariables(reference.program, { workspaceFolder: folderPath, workspaceRoot: folderPath });
+            if (path.includes('${') || !path.startsWith('/')) {
+                continue;
+            }
+
+            try {
+                await vscode.workspace.fs.stat(scope.uri.with({ path }));
+            } catch (error) {
+                problems.push({
+                    message: reference.preLaunchTask
+                        ? `Program "${reference.program}" does not exist yet; preLaunchTask "${reference.preLaunchTask}" may build it`
+                        : `Program "${reference.program}" does not exist`,
+                    severity: reference.preLaunchTask ? 'information' : 'warning',
+                    offset: reference.offset,
+                    length: reference.length,
+                    path: reference.path,
+                    target: reference.target
+                });
+            }
+        }
+        return problems;
+    }
+
+    private toDiagnostic(document: vscode.TextDocument, problem: LaunchProblem): vscode.Diagnostic {
+        const range = new vscode.Range(document.positionAt(problem.offset), document.positionAt(problem.offset + problem.length));
+        const diagnostic = new vscode.Diagnostic(range, problem.message, SEVERITIES[problem.severity]);
+        diagnostic.source = 'Tingly Debug';
+        if (problem.code) {
+            diagnostic.code = problem.code;
+        }
+        return diagnostic;
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+        this.onDidChangeEmitter.dispose();
+    }
+}
@@ -0,0 +1,45 @@
+import type { Memento } from 'vscode';
+import { PinnedConfiguration } from './types';
+
+const PINS_KEY = 'tingly.debug.pinnedConfigurations';
+
+/**
+ * Configurations pinned by the user, persisted in workspace state in pin order
+ */
+export class PinnedConfigurations {
+    constructor(private readonly state: Memento) { }
+
+    getPins(): PinnedConfiguration[] {
+        return this.state.get<PinnedConfiguration[]>(PINS_KEY, []);
+    }
+
+    isPinned(name: string, launchUri?: string): boolean {
+        return this.getPins().some(pin => matches(pin, name, launchUri));
+    }
+
+    async pin(name: string, launchUri?: string): Promise<void> {
+        if (!this.isPinned(name, launchUri)) {
+            await this.state.update(PINS_KEY, [...this.getPins(), { name, launchUri }]);
+        }
+    }
+
+    async unpin(name: string, launchUri?: string): Promise<void> {
+        await this.state.update(PINS_KEY, this.getPins().filter(pin => !matches(pin, name, launchUri)));
+    }
+
+    /**
+     * Follow a configuration rename so its pin is kept
+     */
+    async rename(oldName: string, newName: string, launchUri?: string): Promise<void> {
+        if (oldName === newName || !this.isPinned(oldName, launchUri)) {
+            return;
+        }
+        await this.state.update(PINS_KEY, this.getPins().map(pin =>
+            matches(pin, oldName, launchUri) ? { ...pin, name: newName } : pin
+        ));
+    }
+}
+
+function matches(pin: PinnedConfiguration, name: string, launchUri?: string): boolean {
+    return pin.name === name && pin.launchUri === launchUri;
+}
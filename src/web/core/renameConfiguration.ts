@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { LaunchConfiguration } from './types';
+import { DebugConfigurationProvider, LaunchScope } from '../views/debugPanel';
+import { findLaunchRenameEdits, findTaskReferenceEdits, findTaskRenameEdits, RenameEditKind, RenameTextEdit } from '../util/renameReferences';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('Rename');
+
+/** Preview group for each kind of edit */
+const EDIT_LABELS: Record<RenameEditKind, string> = {
+    definition: 'Rename configuration',
+    compoundMember: 'Update compound members',
+    serverReadyAction: 'Update serverReadyAction references',
+    task: 'Rename tasks named after the configuration'
+};
+
+async function openDocument(uri: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+    try {
+        return await vscode.workspace.openTextDocument(uri);
+    } catch (error) {
+        // Files like tasks.json are optional
+        return undefined;
+    }
+}
+
+function addEdits(workspaceEdit: vscode.WorkspaceEdit, document: vscode.TextDocument, edits: RenameTextEdit[]): void {
+    for (const edit of edits) {
+        const range = new vscode.Range(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length));
+        workspaceEdit.replace(document.uri, range, edit.newText, {
+            label: EDIT_LABELS[edit.kind],
+            description: vscode.workspace.asRelativePath(document.uri),
+            needsConfirmation: true
+        });
+    }
+}
+
+/**
+ * Build the edit renaming a configuration across every launch file of the workspace, plus
+ * the tasks named after it. Every change needs confirmation, so applying it opens the preview.
+ */
+export async function createRenameEdit(
+    provider: DebugConfigurationProvider,
+    config: LaunchConfiguration,
+    scope: LaunchScope | undefined,
+    newName: string
+): Promise<vscode.WorkspaceEdit> {
+    const owningScope = scope || provider.getDefaultScope();
+    if (!owningScope) {
+        throw new Error('No workspace folder is open');
+    }
+
+    const oldName = config.name;
+    const workspaceEdit = new vscode.WorkspaceEdit();
+
+    for (const launchScope of provider.getLaunchScopes()) {
+        const document = await openDocument(launchScope.uri);
+        if (!document) {
+            continue;
+        }
+        addEdits(workspaceEdit, document, findLaunchRenameEdits(document.getText(), oldName, newName, {
+            launchPath: launchScope.launchPath,
+            ownsConfiguration: launchScope.uri.toString() === owningScope.uri.toString(),
+            folderName: owningScope.folder?.name
+        }));
+    }
+
+    // Tasks live next to the configuration: the folder's tasks.json, or the workspace file's `tasks`
+    const tasksUri = owningScope.folder ? vscode.Uri.joinPath(owningScope.folder.uri, '.vscode', 'tasks.json') : owningScope.uri;
+    const tasksPath = owningScope.folder ? [] : ['tasks'];
+    const tasksDocument = await openDocument(tasksUri);
+    const taskEdits = tasksDocument ? findTaskRenameEdits(tasksDocument.getText(), oldName, newName, tasksPath) : [];
+    if (tasksDocument && taskEdits.length > 0) {
+        addEdits(workspaceEdit, tasksDocument, taskEdits);
+
+        const launchDocument = await openDocument(owningScope.uri);
+        if (launchDocument) {
+            addEdits(workspaceEdit, launchDocument, findTaskReferenceEdits(launchDocument.getText(), oldName, newName, owningScope.launchPath));
+        }
+    }
+
+    log.debug(`Rename "${oldName}" -> "${newName}": ${workspaceEdit.size} files affected`);
+    return workspaceEdit;
+}
+
+/**
+ * Apply a rename edit through the refactor preview and save the files it changed.
+ * Resolves to false when the user discards the preview.
+ */
+export async function applyRenameEdit(workspaceEdit: vscode.WorkspaceEdit): Promise<boolean> {
+    const applied = await vscode.workspace.applyEdit(workspaceEdit, { isRefactoring: true });
+    if (!applied) {
+        return false;
+    }
+
+    for (const [uri] of workspaceEdit.entries()) {
+        const document = await openDocument(uri);
+        if (document?.isDirty) {
+            await document.save();
+        }
+    }
+    return true;
+}
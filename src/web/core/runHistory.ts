@@ -0,0 +1,61 @@
+import type { Memento } from 'vscode';
+import { RunHistoryEntry, RunStatus } from './types';
+
+const HISTORY_KEY = 'tingly.debug.runHistory';
+const MAX_ENTRIES = 10;
+
+/**
+ * Launch history persisted in workspace state, newest first
+ */
+export class RunHistory {
+    constructor(private readonly state: Memento) { }
+
+    getEntries(): RunHistoryEntry[] {
+        return this.state.get<RunHistoryEntry[]>(HISTORY_KEY, []);
+    }
+
+    /**
+     * Most recent entry, optionally limited to one mode
+     */
+    getLast(mode?: RunHistoryEntry['mode']): RunHistoryEntry | undefined {
+        return this.getEntries().find(entry => !mode || entry.mode === mode);
+    }
+
+    /**
+     * Record a new launch as running and return its entry
+     */
+    async record(launch: Omit<RunHistoryEntry, 'id' | 'timestamp' | 'status'>): Promise<RunHistoryEntry> {
+        const timestamp = Date.now();
+        const entry: RunHistoryEntry = {
+            ...launch,
+            id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+            timestamp,
+            status: 'running'
+        };
+        await this.state.update(HISTORY_KEY, [entry, ...this.getEntries()].slice(0, MAX_ENTRIES));
+        return entry;
+    }
+
+    async setStatus(id: string, status: RunStatus, exitCode?: number): Promise<void> {
+        const entries = this.getEntries().map(entry =>
+            entry.id === id ? { ...entry, status, exitCode } : entry
+        );
+        await this.state.update(HISTORY_KEY, entries);
+    }
+
+    /**
+     * Mark runs left as running by a previous window as stopped; their sessions are gone
+     */
+    async settleInterrupted(): Promise<void> {
+        const entries = this.getEntries();
+        if (entries.some(entry => entry.status === 'running')) {
+            await this.state.update(HISTORY_KEY, entries.map(entry =>
+                entry.status === 'running' ? { ...entry, status: 'stopped' as RunStatus } : entry
+            ));
+        }
+    }
+
+    async clear(): Promise<void> {
+        await this.state.update(HISTORY_KEY, []);
+    }
+}
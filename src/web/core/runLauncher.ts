@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { LaunchCompound, LaunchConfiguration } from './types';
+import { allSupportNoDebug } from '../config/noDebugSupport';
+import { runWithBreakpointsSuppressed } from './breakpointSuppressor';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('RunLauncher');
+
+/**
+ * Start a configuration or compound without debugging. When every adapter involved
+ * supports `noDebug` the run skips the debugger entirely; otherwise it falls back to
+ * suppressing breakpoints until the run ends.
+ *
+ * @param memberConfigs Resolved member configurations of a compound; omit when unknown
+ */
+export async function startRun(
+    folder: vscode.WorkspaceFolder | undefined,
+    config: LaunchConfiguration | LaunchCompound,
+    memberConfigs?: LaunchConfiguration[]
+): Promise<boolean> {
+    const isCompound = 'configurations' in config;
+    // Compounds launch by name so VS Code resolves members and applies stopAll/preLaunchTask
+    const target = isCompound ? config.name : config as LaunchConfiguration;
+    const configs = isCompound ? memberConfigs || [] : [config as LaunchConfiguration];
+
+    if (allSupportNoDebug(configs)) {
+        log.debug(`Running "${config.name}" with noDebug`);
+        return vscode.debug.startDebugging(folder, target, { noDebug: true });
+    }
+
+    log.debug(`Running "${config.name}" with breakpoints suppressed`);
+    return runWithBreakpointsSuppressed(config, () => vscode.debug.startDebugging(folder, target));
+}
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { formatShellCommand, getShellKind, parseEnvFile, resolveCommandTemplate, substituteVariables, toCommandTemplate } from '../config/terminalCommand';
+import { LaunchConfiguration } from './types';
+import { getPredefinedVariables } from './variableContext';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('Terminal');
+
+/**
+ * Read the configuration's envFile, if any; values in `env` take precedence over it
+ */
+async function readEnvFile(config: LaunchConfiguration, folder?: vscode.WorkspaceFolder): Promise<Record<string, string>> {
+    if (typeof config.envFile !== 'string' || !config.envFile) {
+        return {};
+    }
+
+    // Resolve against the folder's URI path so remote and virtual workspaces read the right file;
+    // relative paths are relative to the folder, as debug adapters read them
+    const path = substituteVariables(config.envFile, getPredefinedVariables(folder, folder?.uri.path));
+    const isAbsolute = /^([\/\\]|[a-zA-Z]:)/.test(path);
+    const uri = !folder
+        ? vscode.Uri.file(path)
+        : isAbsolute ? folder.uri.with({ path }) : vscode.Uri.joinPath(folder.uri, path);
+    try {
+        const content = await vscode.workspace.fs.readFile(uri);
+        return parseEnvFile(new TextDecoder().decode(content));
+    } catch (error) {
+        log.warn(`Failed to read envFile ${path}:`, error);
+        return {};
+    }
+}
+
+/**
+ * Run a launch configuration as a plain shell command in a new terminal named after it.
+ * No debug adapter is involved. Earlier terminals are left alone: without shell integration
+ * events (VS Code 1.93) there is no telling whether their command is still running.
+ */
+export async function runInTerminal(config: LaunchConfiguration, folder?: vscode.WorkspaceFolder): Promise<vscode.Terminal> {
+    const template = resolveCommandTemplate(toCommandTemplate(config), getPredefinedVariables(folder, folder?.uri.fsPath));
+    const env = { ...(await readEnvFile(config, folder)), ...template.env };
+    const options: vscode.TerminalOptions = {
+        name: `Tingly: ${config.name}`,
+        cwd: template.cwd || folder?.uri.fsPath,
+        env: Object.keys(env).length > 0 ? env : undefined
+    };
+
+    const terminal = vscode.window.createTerminal(options);
+    // Quote for the shell the terminal starts, so `$`, quotes and `;` in arguments stay literal
+    const command = formatShellCommand(template, getShellKind(vscode.env.shell));
+    log.info(`Running "${config.name}" in terminal: ${command}`);
+
+    terminal.show();
+    terminal.sendText(command);
+    return terminal;
+}
@@ -7,9 +7,36 @@ export interface LaunchConfiguration {
     [key: string]: any;
 }
 
+/**
+ * Compound member: a configuration name, or a name plus the workspace folder that owns it
+ */
+export type CompoundMember = string | { name: string; folder: string };
+
 export interface LaunchCompound {
     name: string;
-    configurations: string[];
+    configurations: CompoundMember[];
+    stopAll?: boolean;
+    preLaunchTask?: string;
+    [key: string]: any;
+}
+
+export type LaunchInputType = 'promptString' | 'pickString' | 'command';
+
+/**
+ * Input variable declared in launch.json and referenced as `${input:id}`
+ */
+export interface LaunchInput {
+    id: string;
+    type: LaunchInputType;
+    description?: string;
+    default?: string;
+    /** promptString: mask the typed value */
+    password?: boolean;
+    /** pickString: plain values or labelled values to choose from */
+    options?: (string | { label: string; value: string })[];
+    /** command: the command to run and its arguments */
+    command?: string;
+    args?: any;
     [key: string]: any;
 }
 
@@ -17,10 +44,38 @@ export interface LaunchJson {
     version: string;
     configurations: LaunchConfiguration[];
     compounds?: LaunchCompound[];
+    inputs?: LaunchInput[];
 }
 
 export type ClickBehavior = 'openSettings' | 'none';
 
+/** How a configuration was launched: `run` executes without debugging, `debug` honours breakpoints */
+export type SessionMode = 'run' | 'debug';
+
+export type RunStatus = 'running' | 'succeeded' | 'failed' | 'stopped';
+
+export interface RunHistoryEntry {
+    id: string;
+    name: string;
+    mode: SessionMode;
+    timestamp: number;
+    status: RunStatus;
+    exitCode?: number;
+    compound?: boolean;
+    /** URI of the launch file the configuration came from */
+    launchUri?: string;
+}
+
+/**
+ * A configuration or compound pinned to the top of the tree, identified by name
+ * within its launch file
+ */
+export interface PinnedConfiguration {
+    name: string;
+    /** URI of the launch file holding the configuration */
+    launchUri?: string;
+}
+
 export interface ConfigurationData {
     name: string;
     type: string;
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { VariableContext } from '../config/variableResolver';
+
+/**
+ * Last segment of a slash-separated path
+ */
+function basename(path: string): string {
+    return path.split('/').pop() || '';
+}
+
+/**
+ * Directory part of a slash-separated path
+ */
+function dirname(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index > 0 ? path.slice(0, index) : '';
+}
+
+/**
+ * Values for VS Code's predefined variables from the workspace folder and the active editor.
+ * `folderPath` is the folder path to substitute, so callers choose between fsPath and URI path.
+ * Variables only the debug host knows, like userHome, are present without a value.
+ */
+export function getPredefinedVariables(
+    folder: vscode.WorkspaceFolder | undefined,
+    folderPath: string | undefined,
+    editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor
+): Record<string, string | undefined> {
+    const activeFile = editor?.document.uri;
+    const fileFolder = activeFile ? vscode.workspace.getWorkspaceFolder(activeFile) : undefined;
+    const fileName = activeFile ? basename(activeFile.path) : undefined;
+    const extensionIndex = fileName ? fileName.lastIndexOf('.') : -1;
+    const relativeFile = activeFile && fileFolder && activeFile.path.startsWith(`${fileFolder.uri.path}/`)
+        ? activeFile.path.slice(fileFolder.uri.path.length + 1)
+        : undefined;
+
+    return {
+        workspaceFolder: folderPath,
+        workspaceFolderBasename: folder?.name,
+        workspaceRoot: folderPath,
+        cwd: folderPath,
+        file: activeFile?.fsPath,
+        fileBasename: fileName,
+        fileBasenameNoExtension: fileName && extensionIndex > 0 ? fileName.slice(0, extensionIndex) : fileName,
+        fileExtname: fileName === undefined ? undefined : extensionIndex > 0 ? fileName.slice(extensionIndex) : '',
+        fileDirname: activeFile ? vscode.Uri.joinPath(activeFile, '..').fsPath : undefined,
+        fileDirnameBasename: activeFile ? basename(dirname(activeFile.path)) : undefined,
+        fileWorkspaceFolder: fileFolder?.uri.fsPath,
+        relativeFile,
+        relativeFileDirname: relativeFile !== undefined ? dirname(relativeFile) : undefined,
+        lineNumber: editor ? String(editor.selection.active.line + 1) : undefined,
+        selectedText: editor && !editor.selection.isEmpty ? editor.document.getText(editor.selection) : undefined,
+        pathSeparator: '/',
+        userHome: undefined,
+        execPath: undefined,
+        defaultBuildTask: undefined
+    };
+}
+
+/**
+ * Everything a configuration in the given folder's launch file can be resolved against
+ * without starting it. The web extension host has no process environment, so `${env:...}`
+ * stays unresolved.
+ */
+export function getVariableContext(folder?: vscode.WorkspaceFolder): VariableContext {
+    const folders: Record<string, string> = {};
+    for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+        folders[workspaceFolder.name] = workspaceFolder.uri.fsPath;
+    }
+
+    return {
+        // A focused webview has no active text editor; fall back to the one shown beside it
+        variables: getPredefinedVariables(folder, folder?.uri.fsPath, vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0]),
+        folders,
+        config: key => vscode.workspace.getConfiguration(undefined, folder?.uri).get(key)
+    };
+}
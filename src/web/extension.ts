@@ -2,7 +2,12 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from 'vscode';
 import { registerCommandHandlers } from './core/commandHandlers';
-import { DebugConfigurationProvider, DebugConfigurationItem, DebugErrorItem } from './views/debugPanel';
+import { LaunchCodeActionProvider } from './core/launchCodeActions';
+import { LaunchDiagnostics } from './core/launchDiagnostics';
+import { PinnedConfigurations } from './core/pinnedConfigurations';
+import { RunHistory } from './core/runHistory';
+import { DebugTreeDragAndDropController } from './views/debugDragAndDrop';
+import { DebugConfigurationProvider, DebugGroupItem, DebugTreeItem } from './views/debugPanel';
 import { createModuleLogger } from './util/logger';
 
 const log = createModuleLogger('Extension');
@@ -13,14 +18,36 @@ export function activate(context: vscode.ExtensionContext) {
     const outputChannel = vscode.window.createOutputChannel('Tingly Debug Errors');
     context.subscriptions.push(outputChannel);
 
+    // Run history survives reloads; runs cut short by the previous window are marked stopped
+    const history = new RunHistory(context.workspaceState);
+    history.settleInterrupted().catch(error => log.error('Failed to settle run history:', error));
+
     // Create debug configuration provider
-    const provider = new DebugConfigurationProvider();
+    const pins = new PinnedConfigurations(context.workspaceState);
+    const diagnostics = new LaunchDiagnostics();
+    const provider = new DebugConfigurationProvider(history, context.workspaceState, pins, diagnostics);
+
+    // Validate launch files into the Problems panel; the tree picks up the per-item results
+    const validateLaunchFiles = () => {
+        diagnostics.validate(provider.getLaunchScopes()).catch(error => log.error('Failed to validate launch files:', error));
+    };
+    context.subscriptions.push(diagnostics, diagnostics.onDidChange(() => provider.refresh()));
+    validateLaunchFiles();
+
+    // Quick fixes for the problems above, in launch.json and in the launch section of workspace files
+    context.subscriptions.push(vscode.languages.registerCodeActionsProvider(
+        [{ pattern: '**/.vscode/launch.json' }, { pattern: '**/*.code-workspace' }],
+        new LaunchCodeActionProvider(() => provider.getLaunchScopes(), diagnostics),
+        { providedCodeActionKinds: LaunchCodeActionProvider.providedCodeActionKinds }
+    ));
 
     // Create tree view
     const treeView = vscode.window.createTreeView('tingly.debug.debugConfigurations', {
         treeDataProvider: provider,
-        showCollapseAll: false
-    }) as vscode.TreeView<DebugConfigurationItem | DebugErrorItem>;
+        showCollapseAll: false,
+        canSelectMany: true,
+        dragAndDropController: new DebugTreeDragAndDropController(provider)
+    }) as vscode.TreeView<DebugTreeItem>;
 
     // Register all command handlers
     registerCommandHandlers(context, provider, treeView, outputChannel);
@@ -28,9 +55,27 @@ export function activate(context: vscode.ExtensionContext) {
     // Register tree view
     context.subscriptions.push(treeView);
 
+    // Remember which configuration groups are collapsed
+    context.subscriptions.push(
+        treeView.onDidExpandElement(event => {
+            if (event.element instanceof DebugGroupItem) {
+                provider.setGroupExpanded(event.element, true).catch(error => log.error('Failed to save group state:', error));
+            }
+        }),
+        treeView.onDidCollapseElement(event => {
+            if (event.element instanceof DebugGroupItem) {
+                provider.setGroupExpanded(event.element, false).catch(error => log.error('Failed to save group state:', error));
+            }
+        })
+    );
+
+    // Reflect running debug sessions in the tree
+    context.subscriptions.push(provider.watchDebugSessions());
+
     // Watch for changes in launch.json
     const fileSystemWatcher = vscode.workspace.createFileSystemWatcher('**/.vscode/launch.json');
     fileSystemWatcher.onDidChange(async () => {
+        validateLaunchFiles();
         try {
             await provider.refresh();
         } catch (error) {
@@ -38,6 +83,7 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
     fileSystemWatcher.onDidCreate(async () => {
+        validateLaunchFiles();
         try {
             await provider.refresh();
         } catch (error) {
@@ -45,6 +91,7 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
     fileSystemWatcher.onDidDelete(async () => {
+        validateLaunchFiles();
         try {
             await provider.refresh();
         } catch (error) {
@@ -54,9 +101,25 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(fileSystemWatcher);
 
+    // Unsaved edits to a launch file are validated as you type
+    let validationTimer: ReturnType<typeof setTimeout> | undefined;
+    const documentWatcher = vscode.workspace.onDidChangeTextDocument(event => {
+        const uri = event.document.uri.toString();
+        if (provider.getLaunchScopes().some(scope => scope.uri.toString() === uri)) {
+            clearTimeout(validationTimer);
+            validationTimer = setTimeout(validateLaunchFiles, 500);
+        }
+    });
+
+    context.subscriptions.push(documentWatcher, { dispose: () => clearTimeout(validationTimer) });
+
     // Watch for configuration changes
     const configWatcher = vscode.workspace.onDidChangeConfiguration(async (e) => {
-        if (e.affectsConfiguration('tingly.debug.clickBehavior')) {
+        // `launch` covers edits to the .code-workspace file's launch section
+        if (e.affectsConfiguration('tingly.debug.clickBehavior') || e.affectsConfiguration('tingly.debug.groupBy') || e.affectsConfiguration('launch')) {
+            if (e.affectsConfiguration('launch')) {
+                validateLaunchFiles();
+            }
             try {
                 await provider.refresh();
             } catch (error) {
@@ -66,6 +129,18 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     context.subscriptions.push(configWatcher);
+
+    // Folders added to or removed from a multi-root workspace change the top-level nodes
+    const workspaceFoldersWatcher = vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+        validateLaunchFiles();
+        try {
+            await provider.refresh();
+        } catch (error) {
+            log.error('Failed to refresh on workspace folder change:', error);
+        }
+    });
+
+    context.subscriptions.push(workspaceFoldersWatcher);
 }
 
 // This method is called when your extension is deactivated
@@ -0,0 +1,273 @@
+// C/C++ language debugging module
+
+import * as vscode from 'vscode';
+import { LanguageModule, LanguageDebugConfig, LanguageTestConfig } from './types';
+import { SymbolInfo } from '../config/debugCommandGenerator';
+import {
+    CMakeTarget,
+    CompileCommand,
+    CppTestCase,
+    findCMakeTarget,
+    findCppTestForSymbol,
+    findCppTests,
+    hasCppMain,
+    parseCMakeCache
+} from './cppProject';
+import { readText, relativeToRoot, workspaceFolderPath } from './moduleFs';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('Cpp');
+
+/** Build directories searched for, by their CMakeCache.txt */
+const MAX_BUILD_DIRECTORIES = 10;
+
+/**
+ * A configured CMake build tree and what its cache says about the toolchain
+ */
+interface CMakeBuild {
+    directory: string;
+    target?: CMakeTarget;
+    /** Configured for Apple platforms, where gdb is rarely available */
+    isApple: boolean;
+}
+
+/**
+ * The binary to launch for a symbol, and the test it selects if any
+ */
+interface CppLaunchPlan {
+    program: string;
+    cwd: string;
+    test?: CppTestCase;
+    debuggerType: 'cppdbg' | 'lldb';
+    isApple: boolean;
+}
+
+function getDefaultProgram(filePath: string): string {
+    const fileName = (filePath.split(/[\/\\]/).pop() || 'app').replace(/\.[^.]*$/, '');
+    return `\${workspaceFolder}/build/${fileName}`;
+}
+
+/**
+ * A build path under `${workspaceFolder}` when it is inside the workspace; build trees outside it stay absolute
+ */
+function toLaunchPath(path: string, workspaceRoot: string): string {
+    const isInside = path === workspaceRoot || path.startsWith(`${workspaceRoot}/`);
+    return isInside ? workspaceFolderPath(relativeToRoot(path, workspaceRoot)) : path;
+}
+
+/**
+ * Find the CMake build tree that compiles `filePath`, through the compile_commands.json next
+ * to each CMakeCache.txt of the workspace. Shallow build directories are tried first.
+ */
+async function findCMakeBuild(filePath: string): Promise<CMakeBuild | undefined> {
+    const caches = await vscode.workspace.findFiles('**/CMakeCache.txt', '**/node_modules/**', MAX_BUILD_DIRECTORIES);
+    caches.sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+
+    let fallback: CMakeBuild | undefined;
+    for (const cacheUri of caches) {
+        const cache = parseCMakeCache(await readText(cacheUri) || '');
+        // Skip build trees of other source directories, such as vendored dependencies
+        const sourceDirectory = cache.CMAKE_HOME_DIRECTORY;
+        if (sourceDirectory && !filePath.startsWith(`${sourceDirectory}/`)) {
+            continue;
+        }
+
+        const directory = cacheUri.path.slice(0, cacheUri.path.lastIndexOf('/'));
+        const isApple = cache.CMAKE_OSX_SYSROOT !== undefined || cache.CMAKE_OSX_ARCHITECTURES !== undefined;
+        const commandsText = await readText(vscode.Uri.joinPath(cacheUri, '..', 'compile_commands.json'));
+        if (commandsText === undefined) {
+            log.debug(`No compile_commands.json in ${directory}; configure with -DCMAKE_EXPORT_COMPILE_COMMANDS=ON`);
+            fallback = fallback || { directory, isApple };
+            continue;
+        }
+
+        try {
+            const target = findCMakeTarget(JSON.parse(commandsText) as CompileCommand[], filePath);
+            if (target) {
+                return { directory, target, isApple };
+            }
+        } catch (error) {
+            log.warn(`Failed to read ${directory}/compile_commands.json:`, error);
+        }
+        fallback = fallback || { directory, isApple };
+    }
+    return fallback;
+}
+
+/**
+ * CodeLLDB when it is the only C/C++ debugger installed, the Microsoft C/C++ debugger otherwise
+ */
+function getDebuggerType(): 'cppdbg' | 'lldb' {
+    const hasCodeLLDB = vscode.extensions.getExtension('vadimcn.vscode-lldb') !== undefined;
+    const hasCppTools = vscode.extensions.getExtension('ms-vscode.cpptools') !== undefined;
+    return hasCodeLLDB && !hasCppTools ? 'lldb' : 'cppdbg';
+}
+
+/**
+ * Offset of the cursor when the symbol's file is the active editor, to tell tests apart
+ * whose document symbols carry generated names
+ */
+function getCursorOffset(filePath: string): number | undefined {
+    const editor = vscode.window.activeTextEditor;
+    return editor && editor.document.uri.fsPath === filePath ? editor.document.offsetAt(editor.selection.active) : undefined;
+}
+
+async function createLaunchPlan(symbol: SymbolInfo): Promise<CppLaunchPlan | undefined> {
+    const source = await readText(vscode.Uri.file(symbol.filePath)) || '';
+    const tests = findCppTests(source);
+    const test = findCppTestForSymbol(tests, symbol.path, getCursorOffset(symbol.filePath));
+    if (!test && !hasCppMain(source)) {
+        // Library sources have no executable of their own
+        return undefined;
+    }
+
+    // Without a build tree that compiles the file, fall back to an executable named after it
+    const build = await findCMakeBuild(symbol.filePath);
+    return {
+        program: build?.target ? toLaunchPath(build.target.executable, symbol.workspaceRoot) : getDefaultProgram(symbol.filePath),
+        cwd: build?.target ? toLaunchPath(build.target.directory, symbol.workspaceRoot) : '${workspaceFolder}',
+        test,
+        debuggerType: getDebuggerType(),
+        isApple: build?.isApple ?? false
+    };
+}
+
+function getTestArgs(test: CppTestCase | undefined): string[] {
+    if (!test) {
+        return [];
+    }
+    return test.framework === 'gtest' ? [`--gtest_filter=${test.filter}`] : [test.filter];
+}
+
+function getConfigName(plan: CppLaunchPlan): string {
+    const program = plan.program.split('/').pop();
+    if (!plan.test) {
+        return `C++: ${program}`;
+    }
+    return plan.test.framework === 'gtest'
+        ? `GoogleTest: ${plan.test.suite}.${plan.test.name}`
+        : `Catch2: ${plan.test.name}`;
+}
+
+function createLaunchConfig(name: string, program: string, args: string[], cwd: string, debuggerType: 'cppdbg' | 'lldb', isApple: boolean): LanguageDebugConfig {
+    if (debuggerType === 'lldb') {
+        return { name, type: 'lldb', request: 'launch', program, args, cwd };
+    }
+    return {
+        name,
+        type: 'cppdbg',
+        request: 'launch',
+        program,
+        args,
+        cwd,
+        stopAtEntry: false,
+        externalConsole: false,
+        MIMode: isApple ? 'lldb' : 'gdb',
+        setupCommands: isApple ? undefined : [
+            {
+                description: 'Enable pretty-printing for gdb',
+                text: '-enable-pretty-printing',
+                ignoreFailures: true
+            }
+        ]
+    };
+}
+
+/**
+ * Launch the CMake executable owning the symbol's file, selecting the test under the symbol
+ */
+async function createCppDebugConfig(symbol: SymbolInfo): Promise<LanguageDebugConfig> {
+    const plan = await createLaunchPlan(symbol);
+    if (!plan) {
+        return cppModule.defaultConfig(symbol.filePath, symbol.workspaceRoot);
+    }
+    return createLaunchConfig(getConfigName(plan), plan.program, getTestArgs(plan.test), plan.cwd, plan.debuggerType, plan.isApple);
+}
+
+async function createCppTestConfig(symbol: SymbolInfo): Promise<LanguageTestConfig> {
+    const plan = await createLaunchPlan(symbol);
+    return {
+        framework: plan?.test?.framework === 'catch2' ? 'catch2' : 'googletest',
+        testCommand: plan?.program ?? './build/tests',
+        args: getTestArgs(plan?.test),
+        cwd: plan?.cwd ?? '${workspaceFolder}'
+    };
+}
+
+export const cppModule: LanguageModule = {
+    language: 'cpp',
+    displayName: 'C/C++',
+    fileExtensions: ['cpp', 'cc', 'cxx', 'c++', 'c', 'h', 'hpp', 'hh', 'hxx'],
+    defaultDebugType: 'cppdbg',
+
+    frameworks: [
+        {
+            name: 'googletest',
+            filePatterns: ['**/CMakeCache.txt', '**/*_test.cpp', '**/*_test.cc', '**/*_unittest.cc'],
+            priority: 10,
+            debugConfig: createCppDebugConfig,
+            testConfig: createCppTestConfig,
+            setupInstructions: 'Configure CMake with -DCMAKE_EXPORT_COMPILE_COMMANDS=ON so test executables can be found',
+            requirements: ['CMake', 'GoogleTest', 'C/C++ or CodeLLDB extension for VS Code']
+        },
+        {
+            name: 'catch2',
+            filePatterns: ['**/catch.hpp', '**/catch_amalgamated.hpp', '**/*.test.cpp'],
+            priority: 8,
+            debugConfig: createCppDebugConfig,
+            testConfig: createCppTestConfig,
+            setupInstructions: 'Configure CMake with -DCMAKE_EXPORT_COMPILE_COMMANDS=ON so test executables can be found',
+            requirements: ['CMake', 'Catch2', 'C/C++ or CodeLLDB extension for VS Code']
+        }
+    ],
+
+    defaultConfig: (filePath: string): LanguageDebugConfig => {
+        const program = getDefaultProgram(filePath);
+        return createLaunchConfig(`C++: ${program.split('/').pop()}`, program, [], '${workspaceFolder}', getDebuggerType(), false);
+    },
+
+    setupInstructions: `
+# C/C++ Debugging Setup
+
+## Required Extensions
+1. **C/C++** (ms-vscode.cpptools) - \`cppdbg\` configurations with gdb or lldb
+2. or **CodeLLDB** (vadimcn.vscode-lldb) - \`lldb\` configurations, used when C/C++ is not installed
+
+## Build Setup
+Executables are found through the CMake build tree, so configure it with compile commands:
+\`\`\`bash
+cmake -S . -B build -DCMAKE_EXPORT_COMPILE_COMMANDS=ON -DCMAKE_BUILD_TYPE=Debug
+cmake --build build
+\`\`\`
+
+The target compiling a source file is read from \`compile_commands.json\` next to each
+\`CMakeCache.txt\`, and its executable is expected in the target's build directory.
+
+## Debugging Support
+- **main**: launches the executable target that compiles the file
+- **GoogleTest**: \`TEST\`, \`TEST_F\`, \`TEST_P\` and typed tests launch with \`--gtest_filter=Suite.Name\`
+  (\`*/Suite.Name/*\` for parameterized tests)
+- **Catch2**: \`TEST_CASE\`, \`TEST_CASE_METHOD\` and \`SCENARIO\` launch with the test case name
+
+**Generated Debug Configuration:**
+\`\`\`json
+{
+    "name": "GoogleTest: ParserTest.ParsesEmptyInput",
+    "type": "cppdbg",
+    "request": "launch",
+    "program": "\${workspaceFolder}/build/tests/parser_tests",
+    "args": ["--gtest_filter=ParserTest.ParsesEmptyInput"],
+    "cwd": "\${workspaceFolder}/build/tests",
+    "MIMode": "gdb"
+}
+\`\`\`
+
+## Common Issues
+- Build the target before debugging; the configuration does not run the build
+- Targets with \`RUNTIME_OUTPUT_DIRECTORY\` set write their executable elsewhere; adjust \`program\`
+- Build with debug information (\`CMAKE_BUILD_TYPE=Debug\`) for breakpoints to bind
+    `,
+
+    requirements: ['CMake with compile commands', 'gdb or lldb', 'C/C++ or CodeLLDB extension for VS Code'],
+    documentation: 'https://code.visualstudio.com/docs/cpp/cpp-debug'
+};
@@ -0,0 +1,187 @@
+// CMake build directories and C/C++ test macros, read without running CMake or the tests
+
+/**
+ * A GoogleTest or Catch2 test declared in a source file. `offset` is where its macro starts;
+ * `filter` selects it on the test binary's command line.
+ */
+export interface CppTestCase {
+    framework: 'gtest' | 'catch2';
+    macro: string;
+    /** GoogleTest suite or fixture; undefined for Catch2 */
+    suite?: string;
+    name: string;
+    offset: number;
+    filter: string;
+}
+
+/**
+ * One entry of compile_commands.json
+ */
+export interface CompileCommand {
+    directory: string;
+    file: string;
+    command?: string;
+    arguments?: string[];
+    output?: string;
+}
+
+/**
+ * The CMake target a source file is compiled into, and where its binary is written
+ */
+export interface CMakeTarget {
+    name: string;
+    /** Build directory of the CMakeLists.txt that defines the target */
+    directory: string;
+    /** Default location of the target's executable */
+    executable: string;
+}
+
+const GTEST_MACRO = /\b(TEST|TEST_F|TEST_P|TYPED_TEST|TYPED_TEST_P)\s*\(\s*(\w+)\s*,\s*(\w+)\s*\)/g;
+const CATCH2_MACRO = /\b(TEST_CASE|TEST_CASE_METHOD|SCENARIO)\s*\(\s*(?:\w+(?:::\w+)*\s*,\s*)?"((?:[^"\\]|\\.)*)"/g;
+
+/**
+ * Blank out comments so commented-out tests are not found; offsets are kept
+ */
+function blankComments(source: string): string {
+    return source.replace(/\/\*[\s\S]*?\*\/|\/\/.*$|"(?:[^"\\\n]|\\.)*"/gm,
+        match => match.startsWith('"') ? match : match.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * `--gtest_filter` pattern for a test. Value-parameterized tests are instantiated as
+ * `Prefix/Suite.Name/Param` and typed tests as `Suite/Type.Name`.
+ */
+function getGoogleTestFilter(macro: string, suite: string, name: string): string {
+    switch (macro) {
+        case 'TEST_P':
+            return `*/${suite}.${name}/*`;
+        case 'TYPED_TEST':
+            return `${suite}/*.${name}`;
+        case 'TYPED_TEST_P':
+            return `*/${suite}/*.${name}`;
+        default:
+            return `${suite}.${name}`;
+    }
+}
+
+/**
+ * Catch2 test spec matching one test case by its exact name; `,`, `[`, `]`, `*` and `\` are escaped
+ */
+function getCatch2Filter(name: string): string {
+    return name.replace(/[\\,[\]*]/g, '\\$&');
+}
+
+/**
+ * GoogleTest and Catch2 tests of a source file, in source order
+ */
+export function findCppTests(source: string): CppTestCase[] {
+    const code = blankComments(source);
+    const tests: CppTestCase[] = [];
+
+    for (const match of code.matchAll(GTEST_MACRO)) {
+        const [, macro, suite, name] = match;
+        tests.push({ framework: 'gtest', macro, suite, name, offset: match.index ?? 0, filter: getGoogleTestFilter(macro, suite, name) });
+    }
+    for (const match of code.matchAll(CATCH2_MACRO)) {
+        const macro = match[1];
+        // Catch2 prefixes BDD scenario names
+        const name = (macro === 'SCENARIO' ? 'Scenario: ' : '') + match[2].replace(/\\(.)/g, '$1');
+        tests.push({ framework: 'catch2', macro, name, offset: match.index ?? 0, filter: getCatch2Filter(name) });
+    }
+    return tests.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * The test a document symbol stands for. clangd names a GoogleTest test after the class
+ * the macro generates, `Suite_Name_Test`, with a `TestBody` method inside; Catch2 tests have
+ * generated names, so `offset` (usually the cursor) picks the test declared last before it.
+ */
+export function findCppTestForSymbol(tests: CppTestCase[], symbolPath: string[], offset?: number): CppTestCase | undefined {
+    for (const test of tests) {
+        const generatedClass = `${test.suite}_${test.name}_Test`;
+        if (symbolPath.some(part => part === generatedClass || part.replace(/\s+/g, '') === `${test.macro}(${test.suite},${test.name})`)) {
+            return test;
+        }
+        if (test.framework === 'catch2' && symbolPath.some(part => part === test.name)) {
+            return test;
+        }
+    }
+
+    if (offset === undefined) {
+        return undefined;
+    }
+    const before = tests.filter(test => test.offset <= offset);
+    return before[before.length - 1];
+}
+
+/**
+ * Whether the source defines a `main` function
+ */
+export function hasCppMain(source: string): boolean {
+    return /\bint\s+main\s*\(/.test(blankComments(source));
+}
+
+/**
+ * Entries of a CMakeCache.txt as `NAME` → value, dropping the `:TYPE` of each key
+ */
+export function parseCMakeCache(text: string): Record<string, string> {
+    const entries: Record<string, string> = {};
+    for (const line of text.split(/\r?\n/)) {
+        const match = /^([^#/][^:=]*)(?::[A-Z]+)?=(.*)$/.exec(line);
+        if (match) {
+            entries[match[1]] = match[2];
+        }
+    }
+    return entries;
+}
+
+function resolvePath(directory: string, path: string): string {
+    const absolute = path.startsWith('/') ? path : `${directory}/${path}`;
+    const segments: string[] = [];
+    for (const segment of absolute.split('/')) {
+        if (segment === '..') {
+            segments.pop();
+        } else if (segment !== '.' && segment !== '') {
+            segments.push(segment);
+        }
+    }
+    return `/${segments.join('/')}`;
+}
+
+/**
+ * Object file a compile command writes: `output`, or the argument after `-o`
+ */
+function getObjectFile(command: CompileCommand): string | undefined {
+    if (command.output) {
+        return command.output;
+    }
+    const args = command.arguments || (command.command || '').match(/"(?:[^"\\]|\\.)*"|\S+/g) || [];
+    const index = args.findIndex(arg => arg === '-o' || arg === '/Fo');
+    if (index !== -1) {
+        return args[index + 1]?.replace(/^"|"$/g, '');
+    }
+    return args.find(arg => arg.startsWith('/Fo'))?.slice(3);
+}
+
+/**
+ * Target that compiles `filePath`, from the `CMakeFiles/<target>.dir/` part of its object
+ * file. The executable path assumes CMake's default output location, the target's build
+ * directory, as `CMAKE_RUNTIME_OUTPUT_DIRECTORY` is not recorded in the build tree.
+ */
+export function findCMakeTarget(commands: CompileCommand[], filePath: string): CMakeTarget | undefined {
+    for (const command of commands) {
+        if (resolvePath(command.directory, command.file) !== filePath) {
+            continue;
+        }
+        // Makefiles compile in the target's directory; Ninja compiles everything from the top
+        // build directory, with the target's directory leading the object path
+        const objectFile = getObjectFile(command)?.replace(/\\/g, '/');
+        const match = objectFile && /(?:^|(.*)\/)CMakeFiles\/([^\/]+)\.dir\//.exec(objectFile);
+        if (!match) {
+            continue;
+        }
+        const directory = resolvePath(command.directory, match[1] || '.');
+        return { name: match[2], directory, executable: `${directory}/${match[2]}` };
+    }
+    return undefined;
+}
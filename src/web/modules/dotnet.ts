@@ -0,0 +1,266 @@
+// .NET (C#) language debugging module
+
+import * as vscode from 'vscode';
+import { LanguageModule, LanguageDebugConfig, LanguageTestConfig } from './types';
+import { SymbolInfo } from '../config/debugCommandGenerator';
+import {
+    CsprojInfo,
+    findCSharpTestAttribute,
+    getOutputAssembly,
+    getTestFilter,
+    getTestingPlatformArgs,
+    parseCsproj,
+    parseCSharpNamespace,
+    stripCSharpSignature
+} from './dotnetProject';
+import { dirname, readText, relativeToRoot, workspaceFolderPath } from './moduleFs';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('Dotnet');
+
+const CLASS_KINDS = [vscode.SymbolKind.Class, vscode.SymbolKind.Struct, vscode.SymbolKind.Namespace];
+
+/**
+ * The project owning a source file, with paths relative to the workspace folder
+ */
+interface DotnetProject {
+    /** e.g. `tests/Shop.Tests/Shop.Tests.csproj` */
+    projectFile: string;
+    info: CsprojInfo;
+}
+
+/**
+ * Nearest .csproj in the file's directory or above it, within the workspace folder
+ */
+async function findProject(filePath: string, workspaceRoot: string): Promise<DotnetProject | undefined> {
+    let directory = dirname(filePath);
+    while (directory.startsWith(workspaceRoot)) {
+        let entries: [string, vscode.FileType][] = [];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(directory));
+        } catch (error) {
+            log.debug(`Cannot list ${directory}:`, error);
+        }
+
+        const projectName = entries
+            .filter(([name, type]) => type === vscode.FileType.File && name.toLowerCase().endsWith('.csproj'))
+            .map(([name]) => name)
+            .sort()[0];
+        if (projectName) {
+            const text = await readText(`${directory}/${projectName}`);
+            const relativeDirectory = relativeToRoot(directory, workspaceRoot);
+            return {
+                projectFile: relativeDirectory ? `${relativeDirectory}/${projectName}` : projectName,
+                info: parseCsproj(text || '')
+            };
+        }
+        if (directory === workspaceRoot) {
+            break;
+        }
+        directory = dirname(directory);
+    }
+    return undefined;
+}
+
+/**
+ * Test class, and test method if the symbol is one, in the form test adapters report them
+ */
+async function getTestSelection(symbol: SymbolInfo): Promise<{ className: string; methodName?: string; attribute?: string }> {
+    const source = await readText(symbol.filePath) || '';
+    const namespace = parseCSharpNamespace(source);
+
+    // The C# extension nests types under their namespace symbol; drop it from the path
+    const path = symbol.path.map(stripCSharpSignature).filter(part => part !== namespace);
+    const isClass = CLASS_KINDS.includes(symbol.kind);
+    const classPath = isClass ? path : path.slice(0, -1);
+    const methodName = isClass ? undefined : stripCSharpSignature(symbol.name);
+    const attribute = methodName ? findCSharpTestAttribute(source, methodName) : undefined;
+
+    const className = classPath.join('+') || (symbol.filePath.split('/').pop() || '').replace(/\.cs$/, '');
+    return {
+        className: namespace ? `${namespace}.${className}` : className,
+        // Helper methods of a test class run the whole class
+        methodName: attribute ? methodName : undefined,
+        attribute
+    };
+}
+
+/** Attaches to a VSTest test host that `VSTEST_HOST_DEBUG=1 dotnet test` started paused */
+const ATTACH_TEST_HOST_CONFIG: LanguageDebugConfig = {
+    name: '.NET: Attach to test host',
+    type: 'coreclr',
+    request: 'attach',
+    processId: '${command:pickProcess}'
+};
+
+/**
+ * `coreclr` launch of the built assembly for console apps and Microsoft.Testing.Platform test
+ * projects, whose executables run their own tests. VSTest projects run `dotnet test` for the
+ * test; their test host is a separate process, debugged with the companion attach configuration.
+ */
+async function createDotnetDebugConfig(symbol: SymbolInfo): Promise<LanguageDebugConfig> {
+    const project = await findProject(symbol.filePath, symbol.workspaceRoot);
+    if (!project) {
+        return dotnetModule.defaultConfig(symbol.filePath, symbol.workspaceRoot);
+    }
+    const projectDirectory = workspaceFolderPath(dirname(project.projectFile));
+
+    if (project.info.isTestProject) {
+        const selection = await getTestSelection(symbol);
+        const shortName = selection.className.split('.').pop();
+        const name = `.NET Test: ${selection.methodName ? `${shortName}.${selection.methodName}` : shortName}`;
+        if (!project.info.usesTestingPlatform) {
+            return {
+                name,
+                type: 'coreclr',
+                request: 'launch',
+                program: 'dotnet',
+                args: ['test', workspaceFolderPath(project.projectFile), '--filter', getTestFilter(selection.className, selection.methodName, selection.attribute)],
+                cwd: '${workspaceFolder}',
+                console: 'integratedTerminal',
+                stopAtEntry: false
+            };
+        }
+        return {
+            name,
+            type: 'coreclr',
+            request: 'launch',
+            program: workspaceFolderPath(getOutputAssembly(project.projectFile, project.info)),
+            args: getTestingPlatformArgs(project.info.testFramework, selection.className, selection.methodName, selection.attribute),
+            cwd: projectDirectory,
+            console: 'internalConsole',
+            stopAtEntry: false
+        };
+    }
+
+    if (!project.info.isExecutable) {
+        log.debug(`${project.projectFile} is a library; using the default configuration`);
+        return dotnetModule.defaultConfig(symbol.filePath, symbol.workspaceRoot);
+    }
+
+    const assembly = getOutputAssembly(project.projectFile, project.info);
+    return {
+        name: `.NET: ${assembly.split('/').pop()?.replace(/\.dll$/, '')}`,
+        type: 'coreclr',
+        request: 'launch',
+        program: workspaceFolderPath(assembly),
+        args: [],
+        cwd: projectDirectory,
+        console: 'internalConsole',
+        stopAtEntry: false
+    };
+}
+
+/**
+ * The attach configuration for VSTest projects, whose breakpoints are only hit in the test host
+ */
+async function createDotnetCompanionConfigs(symbol: SymbolInfo): Promise<LanguageDebugConfig[]> {
+    const project = await findProject(symbol.filePath, symbol.workspaceRoot);
+    return project?.info.isTestProject && !project.info.usesTestingPlatform ? [ATTACH_TEST_HOST_CONFIG] : [];
+}
+
+async function createDotnetTestConfig(symbol: SymbolInfo): Promise<LanguageTestConfig> {
+    const project = await findProject(symbol.filePath, symbol.workspaceRoot);
+    const selection = await getTestSelection(symbol);
+    return {
+        framework: project?.info.testFramework || 'dotnet-test',
+        testCommand: 'dotnet test',
+        args: [
+            ...(project ? [workspaceFolderPath(project.projectFile)] : []),
+            '--filter', getTestFilter(selection.className, selection.methodName, selection.attribute)
+        ],
+        cwd: '${workspaceFolder}'
+    };
+}
+
+export const dotnetModule: LanguageModule = {
+    language: 'csharp',
+    displayName: '.NET (C#)',
+    fileExtensions: ['cs'],
+    defaultDebugType: 'coreclr',
+
+    frameworks: [
+        {
+            name: 'dotnet-test',
+            filePatterns: ['**/*Tests.csproj', '**/*Test.csproj', '**/*.Tests/*.csproj'],
+            priority: 10,
+            debugConfig: createDotnetDebugConfig,
+            testConfig: createDotnetTestConfig,
+            companionConfigs: createDotnetCompanionConfigs,
+            setupInstructions: 'Reference xUnit, NUnit or MSTest together with Microsoft.NET.Test.Sdk in the test project',
+            requirements: ['.NET SDK', 'C# extension for VS Code']
+        },
+        {
+            name: 'dotnet',
+            filePatterns: ['**/*.csproj', '**/*.sln'],
+            priority: 5,
+            debugConfig: createDotnetDebugConfig,
+            setupInstructions: 'Build the project with "dotnet build" before debugging',
+            requirements: ['.NET SDK', 'C# extension for VS Code']
+        }
+    ],
+
+    defaultConfig: (filePath: string, workspaceRoot: string): LanguageDebugConfig => {
+        const relativeDirectory = dirname(filePath.replace(workspaceRoot, '').replace(/^[\/\\]/, ''));
+        const projectName = relativeDirectory.split('/').pop() || workspaceRoot.split(/[\/\\]/).pop() || 'App';
+        return {
+            name: `.NET: ${projectName}`,
+            type: 'coreclr',
+            request: 'launch',
+            program: `${workspaceFolderPath(relativeDirectory)}/bin/Debug/net8.0/${projectName}.dll`,
+            args: [],
+            cwd: workspaceFolderPath(relativeDirectory),
+            console: 'internalConsole',
+            stopAtEntry: false
+        };
+    },
+
+    setupInstructions: `
+# .NET (C#) Debugging Setup
+
+## Required Extensions
+1. **C#** (ms-dotnettools.csharp) - Language support and the \`coreclr\` debugger
+
+## Installation
+\`\`\`bash
+# Install the .NET SDK
+# macOS: brew install dotnet
+# Ubuntu: sudo apt install dotnet-sdk-8.0
+# Windows: Download from dot.net
+\`\`\`
+
+## Debugging Support
+The project owning a file is the nearest \`.csproj\` above it. Its \`TargetFramework\`
+(the first of \`TargetFrameworks\`) and \`AssemblyName\` give the build output,
+\`bin/Debug/<tfm>/<name>.dll\`.
+
+**Console apps** (\`OutputType\` Exe, or the Web and Worker SDKs) launch that assembly:
+\`\`\`json
+{
+    "name": ".NET: Shop.Api",
+    "type": "coreclr",
+    "request": "launch",
+    "program": "\${workspaceFolder}/src/Shop.Api/bin/Debug/net8.0/Shop.Api.dll",
+    "cwd": "\${workspaceFolder}/src/Shop.Api"
+}
+\`\`\`
+
+**Tests** marked \`[Fact]\`, \`[Theory]\` (xUnit), \`[Test]\`, \`[TestCase]\` (NUnit) or
+\`[TestMethod]\` (MSTest) are debugged according to how the project runs its tests:
+- **Microsoft.Testing.Platform** (xUnit v3, \`EnableMSTestRunner\`, \`EnableNUnitRunner\`): the
+  test assembly is launched with a filter for the test, e.g. \`--filter-method Namespace.Class.Method\`
+- **VSTest**: the configuration runs \`dotnet test --filter FullyQualifiedName=Namespace.Class.Method\`.
+  The tests run in a separate test host, so saving it also adds \`.NET: Attach to test host\`.
+  Run the test with \`VSTEST_HOST_DEBUG=1\` set, which pauses the host and prints its process id,
+  then start the attach configuration and pick that id
+
+Running tests without the debugger uses \`dotnet test --filter\` for either kind.
+
+## Common Issues
+- Build the project before launching; the configuration does not run \`dotnet build\`
+- Projects with a custom \`OutputPath\` write their assembly elsewhere; adjust \`program\`
+    `,
+
+    requirements: ['.NET SDK 6+', 'C# extension for VS Code'],
+    documentation: 'https://code.visualstudio.com/docs/csharp/debugging'
+};
@@ -0,0 +1,161 @@
+// SDK-style .csproj files and C# test methods, read without MSBuild
+
+export type DotnetTestFramework = 'xunit' | 'nunit' | 'mstest';
+
+/**
+ * The properties of a .csproj that decide where its build output goes and how it runs
+ */
+export interface CsprojInfo {
+    /** `TargetFramework`, or each of `TargetFrameworks` */
+    targetFrameworks: string[];
+    assemblyName?: string;
+    /** Whether the project builds an executable: `OutputType` Exe/WinExe or the Web/Worker SDKs */
+    isExecutable: boolean;
+    testFramework?: DotnetTestFramework;
+    isTestProject: boolean;
+    /**
+     * Whether the tests run on Microsoft.Testing.Platform, where the test project builds an
+     * executable that runs its own tests instead of being loaded by the VSTest test host
+     */
+    usesTestingPlatform: boolean;
+}
+
+/** Package references that identify a test framework */
+const TEST_PACKAGES: [RegExp, DotnetTestFramework][] = [
+    [/^xunit(\.|$)/i, 'xunit'],
+    [/^nunit(\.|$)/i, 'nunit'],
+    [/^MSTest(\.|$)/i, 'mstest']
+];
+
+/** Properties that switch a test project to its framework's Microsoft.Testing.Platform runner */
+const TESTING_PLATFORM_PROPERTIES = ['EnableMSTestRunner', 'EnableNUnitRunner', 'UseMicrosoftTestingPlatformRunner'];
+
+/** Attributes that make a method a test with xUnit, NUnit or MSTest */
+const TEST_ATTRIBUTES = ['Fact', 'Theory', 'Test', 'TestCase', 'TestCaseSource', 'TestMethod', 'DataTestMethod'];
+
+/** NUnit names parameterized test cases `Method(args)` */
+const PARAMETERIZED_NAME_ATTRIBUTES = ['TestCase', 'TestCaseSource'];
+
+function getProperty(project: string, name: string): string | undefined {
+    return new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`, 'i').exec(project)?.[1];
+}
+
+/**
+ * Read the properties of an SDK-style project file
+ */
+export function parseCsproj(text: string): CsprojInfo {
+    const project = text.replace(/<!--[\s\S]*?-->/g, '');
+    const frameworks = getProperty(project, 'TargetFramework') || getProperty(project, 'TargetFrameworks') || '';
+    const outputType = getProperty(project, 'OutputType');
+    const sdk = /<Project\s+Sdk\s*=\s*"([^"]+)"/i.exec(project)?.[1] || '';
+
+    let testFramework: DotnetTestFramework | undefined;
+    const packages: string[] = [];
+    for (const match of project.matchAll(/<PackageReference\s+Include\s*=\s*"([^"]+)"/gi)) {
+        packages.push(match[1]);
+        testFramework = testFramework || TEST_PACKAGES.find(([pattern]) => pattern.test(match[1]))?.[1];
+    }
+
+    const isExecutable = /^(Exe|WinExe)$/i.test(outputType || '') || /^Microsoft\.NET\.Sdk\.(Web|Worker)$/i.test(sdk);
+    const isTestProject = getProperty(project, 'IsTestProject')?.toLowerCase() === 'true' ||
+        testFramework !== undefined || packages.some(name => /^Microsoft\.NET\.Test\.Sdk$/i.test(name));
+    // xUnit v3 test projects are always executables, whatever the project file says
+    const usesTestingPlatform = isTestProject && (isExecutable ||
+        packages.some(name => /^xunit\.v3(\.|$)/i.test(name)) ||
+        TESTING_PLATFORM_PROPERTIES.some(property => getProperty(project, property)?.toLowerCase() === 'true'));
+
+    return {
+        targetFrameworks: frameworks.split(';').map(framework => framework.trim()).filter(Boolean),
+        assemblyName: getProperty(project, 'AssemblyName'),
+        isExecutable,
+        testFramework,
+        isTestProject,
+        usesTestingPlatform
+    };
+}
+
+/**
+ * Debug build output of a project: `bin/Debug/<tfm>/<assembly>.dll` next to the .csproj.
+ * `projectFile` is the path of the .csproj; the assembly is named after it unless
+ * `AssemblyName` says otherwise.
+ */
+export function getOutputAssembly(projectFile: string, project: CsprojInfo, configuration = 'Debug'): string {
+    const slash = projectFile.lastIndexOf('/');
+    const directory = slash === -1 ? '' : projectFile.slice(0, slash + 1);
+    const projectName = projectFile.slice(slash + 1).replace(/\.csproj$/i, '');
+    const assemblyName = (project.assemblyName || projectName).replace(/\$\(MSBuildProjectName\)/g, projectName);
+    const framework = project.targetFrameworks[0];
+    return `${directory}bin/${configuration}/${framework ? `${framework}/` : ''}${assemblyName}.dll`;
+}
+
+/**
+ * Remove comments and the contents of strings so declarations found below are real code
+ */
+function stripCommentsAndStrings(source: string): string {
+    return source.replace(/\/\*[\s\S]*?\*\/|\/\/.*$|@?"(?:[^"\\\n]|\\.)*"/gm, match => match.startsWith('/') ? ' ' : '""');
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Namespace of the types in a C# file: a file-scoped `namespace X;` or the first block namespace
+ */
+export function parseCSharpNamespace(source: string): string | undefined {
+    return /^\s*namespace\s+([\w.]+)\s*[;{]/m.exec(stripCommentsAndStrings(source))?.[1];
+}
+
+/**
+ * Method name of a document symbol; the C# extension names methods with their parameters
+ */
+export function stripCSharpSignature(name: string): string {
+    const paren = name.indexOf('(');
+    return (paren === -1 ? name : name.slice(0, paren)).trim();
+}
+
+/**
+ * Test attribute of a method, such as `Fact` or `TestCase`, or undefined when it is not a test.
+ * Attributes may be stacked or combined in one list, e.g. `[Theory, InlineData(1)]`.
+ */
+export function findCSharpTestAttribute(source: string, name: string): string | undefined {
+    const attributeList = '\\[[^\\]]*\\]\\s*';
+    const pattern = new RegExp(
+        `((?:${attributeList})+)(?:(?:public|internal|protected|private|static|async|virtual|override|sealed|new)\\s+)*` +
+        `[\\w.<>\\[\\],?\\s]+?\\s+${escapeRegExp(name)}\\s*(?:<[^>]*>)?\\s*\\(`
+    );
+    const attributes = pattern.exec(stripCommentsAndStrings(source))?.[1] || '';
+    for (const match of attributes.matchAll(/[\[,]\s*(?:[\w.]+\.)?(\w+?)(?:Attribute)?\s*(?=[\](,])/g)) {
+        if (TEST_ATTRIBUTES.includes(match[1])) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * `dotnet test --filter` expression for a test method, or for every test of a class.
+ * Nested classes are joined with `+` as test adapters report them; NUnit test cases carry
+ * their arguments in the name, so they are matched by prefix.
+ */
+export function getTestFilter(className: string, methodName?: string, attribute?: string): string {
+    if (!methodName) {
+        return `FullyQualifiedName~${className}.`;
+    }
+    if (attribute && PARAMETERIZED_NAME_ATTRIBUTES.includes(attribute)) {
+        return `FullyQualifiedName~${className}.${methodName}\\(`;
+    }
+    return `FullyQualifiedName=${className}.${methodName}`;
+}
+
+/**
+ * Arguments selecting a test method, or every test of a class, on the command line of a
+ * Microsoft.Testing.Platform test executable. xUnit v3 has its own filter options; the MSTest
+ * and NUnit runners accept `dotnet test` filter expressions.
+ */
+export function getTestingPlatformArgs(framework: DotnetTestFramework | undefined, className: string, methodName?: string, attribute?: string): string[] {
+    if (framework === 'xunit') {
+        return methodName ? ['--filter-method', `${className}.${methodName}`] : ['--filter-class', className];
+    }
+    return ['--filter', getTestFilter(className, methodName, attribute)];
+}
@@ -4,4 +4,8 @@ export * from './types';
 export * from './python';
 export * from './golang';
 export * from './javascript';
+export * from './rust';
+export * from './java';
+export * from './cpp';
+export * from './dotnet';
 export { LanguageModuleRegistry, languageRegistry } from './registry';
\ No newline at end of file
@@ -0,0 +1,267 @@
+// Java language debugging module
+
+import * as vscode from 'vscode';
+import { LanguageModule, LanguageDebugConfig, LanguageTestConfig } from './types';
+import { SymbolInfo } from '../config/debugCommandGenerator';
+import {
+    detectJUnitVersion,
+    getClassNameFromPath,
+    getJavaSourceLayout,
+    getQualifiedClassName,
+    hasJavaMainMethod,
+    isJavaTestMethod,
+    JavaSourceLayout,
+    JUnitVersion,
+    parseGradleRootProjectName,
+    parseJavaPackage,
+    parseMavenArtifactId,
+    stripJavaSignature
+} from './javaProject';
+import { exists, readText, workspaceFolderPath } from './moduleFs';
+
+/** Entry points that run tests from the debuggee's classpath */
+const JUNIT_LAUNCHERS: Record<JUnitVersion, string> = {
+    5: 'org.junit.platform.console.ConsoleLauncher',
+    4: 'org.junit.runner.JUnitCore'
+};
+
+const CLASS_KINDS = [vscode.SymbolKind.Class, vscode.SymbolKind.Interface, vscode.SymbolKind.Enum, vscode.SymbolKind.Struct];
+
+interface JavaBuild {
+    tool: 'maven' | 'gradle';
+    /** Whether the project ships `mvnw` or `gradlew` */
+    wrapper: boolean;
+    /** Project name the Java language server gives the module */
+    projectName?: string;
+}
+
+/**
+ * The class and method a symbol stands for, and how its project is built
+ */
+interface JavaLaunchPlan {
+    layout: JavaSourceLayout;
+    build?: JavaBuild;
+    className: string;
+    simpleName: string;
+    methodName?: string;
+    junit?: JUnitVersion;
+    /** Whether the symbol is a test method, or a class of a test source */
+    isTest: boolean;
+    hasMain: boolean;
+}
+
+/**
+ * Maven or Gradle, from the build file of the module or the workspace root
+ */
+async function detectBuild(workspaceRoot: string, moduleDirectory: string): Promise<JavaBuild | undefined> {
+    const modulePath = moduleDirectory ? `${workspaceRoot}/${moduleDirectory}` : workspaceRoot;
+
+    const pom = await readText(`${modulePath}/pom.xml`);
+    if (pom !== undefined) {
+        return { tool: 'maven', wrapper: await exists(`${workspaceRoot}/mvnw`), projectName: parseMavenArtifactId(pom) };
+    }
+
+    const gradleFiles = [`${modulePath}/build.gradle`, `${modulePath}/build.gradle.kts`, `${workspaceRoot}/settings.gradle`, `${workspaceRoot}/settings.gradle.kts`];
+    for (const file of gradleFiles) {
+        if (await exists(file)) {
+            const settings = await readText(`${workspaceRoot}/settings.gradle`) ?? await readText(`${workspaceRoot}/settings.gradle.kts`);
+            const projectName = moduleDirectory
+                ? moduleDirectory.split('/').pop()
+                : (settings && parseGradleRootProjectName(settings)) || workspaceRoot.split('/').pop();
+            return { tool: 'gradle', wrapper: await exists(`${workspaceRoot}/gradlew`), projectName };
+        }
+    }
+    return undefined;
+}
+
+async function createLaunchPlan(symbol: SymbolInfo): Promise<JavaLaunchPlan> {
+    const source = await readText(symbol.filePath) || '';
+    const relativePath = symbol.filePath.startsWith(`${symbol.workspaceRoot}/`)
+        ? symbol.filePath.slice(symbol.workspaceRoot.length + 1)
+        : symbol.filePath.split('/').pop() || symbol.filePath;
+    const layout = getJavaSourceLayout(relativePath);
+
+    // A method's class is the path above it; a class symbol is its own
+    const isClass = CLASS_KINDS.includes(symbol.kind);
+    const methodName = isClass ? undefined : stripJavaSignature(symbol.name);
+    let classPath = (isClass ? symbol.path : symbol.path.slice(0, -1)).map(stripJavaSignature);
+    const pathClassName = getClassNameFromPath(relativePath);
+    if (classPath.length === 0) {
+        classPath = [pathClassName.split('.').pop() || pathClassName];
+    }
+
+    // The package declaration is authoritative; directories only stand in when it is missing
+    const packageFromPath = pathClassName.includes('.') ? pathClassName.slice(0, pathClassName.lastIndexOf('.')) : undefined;
+    const packageName = source ? parseJavaPackage(source) : packageFromPath;
+    const junit = detectJUnitVersion(source);
+
+    return {
+        layout,
+        build: await detectBuild(symbol.workspaceRoot, layout.moduleDirectory),
+        className: getQualifiedClassName(packageName, classPath),
+        simpleName: classPath.join('.'),
+        methodName,
+        junit,
+        isTest: junit !== undefined && (methodName === undefined || isJavaTestMethod(source, methodName)),
+        hasMain: hasJavaMainMethod(source)
+    };
+}
+
+function getCwd(plan: JavaLaunchPlan): string {
+    return workspaceFolderPath(plan.layout.moduleDirectory);
+}
+
+/**
+ * `java` launch for a main class, or for a JUnit launcher selecting the test class or method
+ */
+async function createJavaDebugConfig(symbol: SymbolInfo): Promise<LanguageDebugConfig> {
+    const plan = await createLaunchPlan(symbol);
+    const base = {
+        type: 'java',
+        request: 'launch' as const,
+        projectName: plan.build?.projectName,
+        cwd: getCwd(plan)
+    };
+
+    if (plan.junit && plan.isTest && plan.methodName !== 'main') {
+        const selection = plan.methodName ? `${plan.simpleName}#${plan.methodName}` : plan.simpleName;
+        // JUnitCore runs whole classes; JUnit 4 tests of a single method run with their class
+        const args = plan.junit === 5
+            ? plan.methodName
+                ? ['--select-method', `${plan.className}#${plan.methodName}`]
+                : ['--select-class', plan.className]
+            : [plan.className];
+        return {
+            name: `JUnit: ${plan.junit === 5 ? selection : plan.simpleName}`,
+            ...base,
+            mainClass: JUNIT_LAUNCHERS[plan.junit],
+            args
+        };
+    }
+
+    if (plan.hasMain) {
+        return {
+            name: `Java: ${plan.simpleName}`,
+            ...base,
+            mainClass: plan.className
+        };
+    }
+
+    return javaModule.defaultConfig(symbol.filePath, symbol.workspaceRoot);
+}
+
+/**
+ * Run the test class or method through the project's build tool
+ */
+async function createJavaTestConfig(symbol: SymbolInfo): Promise<LanguageTestConfig> {
+    const plan = await createLaunchPlan(symbol);
+    const module = plan.layout.moduleDirectory;
+    const method = plan.isTest ? plan.methodName : undefined;
+
+    if (plan.build?.tool === 'gradle') {
+        const task = module ? `:${module.replace(/\//g, ':')}:test` : 'test';
+        return {
+            framework: plan.junit === 4 ? 'junit4' : 'junit5',
+            testCommand: plan.build.wrapper ? './gradlew' : 'gradle',
+            args: [task, '--tests', method ? `${plan.className}.${method}` : plan.className],
+            cwd: '${workspaceFolder}'
+        };
+    }
+
+    return {
+        framework: plan.junit === 4 ? 'junit4' : 'junit5',
+        testCommand: plan.build?.wrapper ? './mvnw' : 'mvn',
+        args: [...(module ? ['-pl', module] : []), 'test', `-Dtest=${method ? `${plan.className}#${method}` : plan.className}`],
+        cwd: '${workspaceFolder}'
+    };
+}
+
+export const javaModule: LanguageModule = {
+    language: 'java',
+    displayName: 'Java',
+    fileExtensions: ['java'],
+    defaultDebugType: 'java',
+
+    frameworks: [
+        {
+            name: 'junit',
+            filePatterns: ['**/src/test/java/**/*.java', '**/*Test.java', '**/*Tests.java'],
+            priority: 10,
+            debugConfig: createJavaDebugConfig,
+            testConfig: createJavaTestConfig,
+            setupInstructions: 'Add JUnit 5 (with junit-platform-console for test debugging) or JUnit 4 to the test dependencies',
+            requirements: ['JDK 11+', 'JUnit 4 or 5', 'Extension Pack for Java']
+        },
+        {
+            name: 'java-main',
+            filePatterns: ['pom.xml', 'build.gradle', 'build.gradle.kts', '**/*.java'],
+            priority: 5,
+            debugConfig: createJavaDebugConfig,
+            setupInstructions: 'Open the folder containing pom.xml or build.gradle so the Java language server imports the project',
+            requirements: ['JDK 11+', 'Extension Pack for Java']
+        }
+    ],
+
+    defaultConfig: (filePath: string, workspaceRoot: string): LanguageDebugConfig => {
+        const relativePath = filePath.replace(workspaceRoot, '').replace(/^[\/\\]/, '');
+        const className = getClassNameFromPath(relativePath);
+        return {
+            name: `Java: ${className.split('.').pop()}`,
+            type: 'java',
+            request: 'launch',
+            mainClass: className,
+            cwd: '${workspaceFolder}'
+        };
+    },
+
+    setupInstructions: `
+# Java Debugging Setup
+
+## Required Extensions
+1. **Extension Pack for Java** (vscjava.vscode-java-pack) - Language support and the Java debugger
+
+## Installation
+\`\`\`bash
+# Install a JDK (11 or newer)
+# macOS: brew install openjdk
+# Ubuntu: sudo apt install openjdk-17-jdk
+# Windows: Download from adoptium.net
+\`\`\`
+
+## Debugging Support
+Class names come from the \`package\` declaration of the file, with nested classes joined
+by \`$\`. Maven and Gradle layouts (\`src/main/java\`, \`src/test/java\`) and multi-module
+projects are recognized, and \`projectName\` is set from the module.
+
+**Main classes** launch with \`mainClass\` set to the fully qualified class name.
+
+**JUnit 5** tests launch \`org.junit.platform.console.ConsoleLauncher\` with
+\`--select-method\` or \`--select-class\`. Add \`org.junit.platform:junit-platform-console\`
+to the test dependencies so it is on the classpath.
+
+**JUnit 4** tests launch \`org.junit.runner.JUnitCore\` with the test class.
+
+**Generated Debug Configuration:**
+\`\`\`json
+{
+    "name": "JUnit: OrderServiceTest#placesOrder",
+    "type": "java",
+    "request": "launch",
+    "mainClass": "org.junit.platform.console.ConsoleLauncher",
+    "projectName": "orders",
+    "args": ["--select-method", "com.example.orders.OrderServiceTest#placesOrder"],
+    "cwd": "\${workspaceFolder}/orders"
+}
+\`\`\`
+
+Running tests from a terminal uses the build tool instead: \`mvn -pl <module> test -Dtest=Class#method\`
+or \`./gradlew :module:test --tests Class.method\`.
+
+## Common Issues
+- Wait for the Java language server to finish importing the project before debugging
+- If the main class is not found, check that the file's \`package\` matches its directory
+    `,
+
+    requirements: ['JDK 11+', 'Extension Pack for Java'],
+    documentation: 'https://code.visualstudio.com/docs/java/java-debugging'
+};
@@ -0,0 +1,142 @@
+// Java sources and Maven/Gradle layouts, read without a language server or build tool
+
+export type JUnitVersion = 4 | 5;
+
+/**
+ * Where a file sits in a Maven/Gradle layout. `moduleDirectory` is the project or subproject
+ * directory relative to the workspace, empty for the root; `sourceSet` is undefined for
+ * sources outside `src/main/java` and `src/test/java`.
+ */
+export interface JavaSourceLayout {
+    moduleDirectory: string;
+    sourceSet?: 'main' | 'test';
+    /** Source root relative to the workspace, e.g. `app/src/test/java` */
+    sourceRoot: string;
+}
+
+/** Annotations that make a method a JUnit 4 or JUnit Jupiter test */
+const TEST_ANNOTATIONS = ['Test', 'ParameterizedTest', 'RepeatedTest', 'TestFactory', 'TestTemplate'];
+
+/**
+ * Remove comments and the contents of string literals, so declarations found by the
+ * patterns below are real code
+ */
+function stripCommentsAndStrings(source: string): string {
+    return source.replace(/\/\*[\s\S]*?\*\/|\/\/.*$|"(?:[^"\\\n]|\\.)*"/gm, match => match.startsWith('"') ? '""' : ' ');
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Package of a compilation unit, or undefined for the default package
+ */
+export function parseJavaPackage(source: string): string | undefined {
+    return /^\s*package\s+([\w.]+)\s*;/m.exec(stripCommentsAndStrings(source))?.[1];
+}
+
+/**
+ * Method name of a document symbol; the Java language server names methods with their
+ * parameter types, like `parse(String, int)`
+ */
+export function stripJavaSignature(name: string): string {
+    const paren = name.indexOf('(');
+    return (paren === -1 ? name : name.slice(0, paren)).trim();
+}
+
+/**
+ * Binary name of a class for the JVM: the package, then nested classes joined with `$`
+ */
+export function getQualifiedClassName(packageName: string | undefined, classPath: string[]): string {
+    const className = classPath.join('$');
+    return packageName ? `${packageName}.${className}` : className;
+}
+
+/**
+ * Find the source root and module of a workspace-relative path. The innermost
+ * `src/main/java` or `src/test/java` wins; other files use their parent `src`, or the
+ * workspace root when there is none.
+ */
+export function getJavaSourceLayout(relativePath: string): JavaSourceLayout {
+    const standard = /^(?:(.*)\/)?src\/(main|test)\/java\//.exec(relativePath);
+    if (standard) {
+        const moduleDirectory = standard[1] || '';
+        return {
+            moduleDirectory,
+            sourceSet: standard[2] as 'main' | 'test',
+            sourceRoot: `${moduleDirectory ? `${moduleDirectory}/` : ''}src/${standard[2]}/java`
+        };
+    }
+
+    const plain = /^(?:(.*)\/)?src\//.exec(relativePath);
+    if (plain) {
+        const moduleDirectory = plain[1] || '';
+        return { moduleDirectory, sourceRoot: `${moduleDirectory ? `${moduleDirectory}/` : ''}src` };
+    }
+    return { moduleDirectory: '', sourceRoot: '' };
+}
+
+/**
+ * Class name derived from the path below the source root, for when the source cannot be read
+ */
+export function getClassNameFromPath(relativePath: string): string {
+    const { sourceRoot } = getJavaSourceLayout(relativePath);
+    const withinRoot = sourceRoot ? relativePath.slice(sourceRoot.length + 1) : relativePath;
+    return withinRoot.replace(/\.java$/, '').replace(/\//g, '.');
+}
+
+/**
+ * JUnit generation a test source is written against, from its imports. JUnit 3 style
+ * `TestCase` subclasses run on the JUnit 4 runner.
+ */
+export function detectJUnitVersion(source: string): JUnitVersion | undefined {
+    const code = stripCommentsAndStrings(source);
+    if (/\bimport\s+(?:static\s+)?org\.junit\.jupiter\./.test(code)) {
+        return 5;
+    }
+    if (/\bimport\s+(?:static\s+)?(?:org\.junit\.|junit\.framework\.)/.test(code)) {
+        return 4;
+    }
+    return undefined;
+}
+
+/**
+ * Whether `name` is declared with a test annotation, such as `@Test` or `@ParameterizedTest`,
+ * among the annotations right before it
+ */
+export function isJavaTestMethod(source: string, name: string): boolean {
+    const annotations = TEST_ANNOTATIONS.join('|');
+    const pattern = new RegExp(
+        `@(?:[\\w.]+\\.)?(?:${annotations})\\b(?:\\s*\\([^)]*\\))?\\s*` +
+        `(?:@[\\w.]+(?:\\s*\\([^)]*\\))?\\s*|(?:public|protected|private|static|final|abstract|synchronized)\\s+)*` +
+        `(?:<[^>]*>\\s*)?[\\w.<>\\[\\],\\s]+?\\s+${escapeRegExp(name)}\\s*\\(`
+    );
+    return pattern.test(stripCommentsAndStrings(source));
+}
+
+/**
+ * Whether the source declares a `public static void main(String[] args)` method
+ */
+export function hasJavaMainMethod(source: string): boolean {
+    return /\b(?:public\s+static|static\s+public)\s+(?:final\s+)?void\s+main\s*\(\s*(?:final\s+)?String\s*(?:\[\s*\]\s*\w+|\.\.\.\s*\w+|\s\w+\s*\[\s*\])\s*\)/
+        .test(stripCommentsAndStrings(source));
+}
+
+/**
+ * The project's own `artifactId` in a pom.xml, skipping the parent's and those of dependencies
+ */
+export function parseMavenArtifactId(pom: string): string | undefined {
+    const own = pom
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<parent>[\s\S]*?<\/parent>/g, '')
+        .replace(/<(dependencies|dependencyManagement|build|profiles|plugins|reporting)>[\s\S]*?<\/\1>/g, '');
+    return /<artifactId>\s*([^<\s]+)\s*<\/artifactId>/.exec(own)?.[1];
+}
+
+/**
+ * `rootProject.name` from settings.gradle or settings.gradle.kts
+ */
+export function parseGradleRootProjectName(settings: string): string | undefined {
+    return /rootProject\.name\s*=\s*["']([^"']+)["']/.exec(settings)?.[1];
+}
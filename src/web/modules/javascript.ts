@@ -3,6 +3,113 @@
 import * as vscode from 'vscode';
 import { LanguageModule, LanguageFramework, LanguageDebugConfig, LanguageTestConfig } from './types';
 import { SymbolInfo } from '../config/debugCommandGenerator';
+import { getDeclaredTestRunners, getVitestNamePattern, parseTestBlock } from './javascriptProject';
+import { dirname, exists, readText, relativeToRoot, workspaceFolderPath } from './moduleFs';
+
+/** Config files that make a directory a Vitest project */
+const VITEST_CONFIG = /^vitest\.(config|workspace)\.[cm]?[jt]s$/;
+
+/**
+ * The Vitest project a file belongs to, relative to the workspace folder
+ */
+interface VitestProject {
+    /** Directory Vitest runs from, '' for the workspace folder */
+    directory: string;
+    /** The file, relative to that directory */
+    relativeFile: string;
+}
+
+/**
+ * Find the closest directory above the file with a Vitest config, or a package.json declaring
+ * vitest. A package.json declaring only another test runner ends the search, so Jest packages of
+ * a monorepo whose root uses Vitest stay with Jest.
+ */
+async function findVitestProject(symbol: SymbolInfo): Promise<VitestProject | undefined> {
+    const { filePath, workspaceRoot } = symbol;
+    let directory = dirname(filePath);
+    while (directory.startsWith(workspaceRoot)) {
+        let entries: [string, vscode.FileType][] = [];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(vscode.Uri.file(directory));
+        } catch (error) {
+            // Unreadable directories are skipped
+        }
+
+        let isProject = entries.some(([name]) => VITEST_CONFIG.test(name));
+        if (!isProject && entries.some(([name]) => name === 'package.json')) {
+            const runners = getDeclaredTestRunners(await readText(`${directory}/package.json`) || '');
+            if (runners.length > 0 && !runners.includes('vitest')) {
+                return undefined;
+            }
+            isProject = runners.includes('vitest');
+        }
+        if (isProject) {
+            return {
+                directory: relativeToRoot(directory, workspaceRoot),
+                relativeFile: filePath.slice(directory.length + 1)
+            };
+        }
+
+        if (directory === workspaceRoot) {
+            break;
+        }
+        directory = dirname(directory);
+    }
+    return undefined;
+}
+
+/**
+ * Vitest's entry script, from the project's node_modules or a parent's where it is hoisted
+ */
+async function findVitestScript(workspaceRoot: string, project: VitestProject): Promise<string> {
+    let directory = project.directory;
+    while (directory) {
+        if (await exists(`${workspaceRoot}/${directory}/node_modules/vitest/vitest.mjs`)) {
+            return `${workspaceFolderPath(directory)}/node_modules/vitest/vitest.mjs`;
+        }
+        directory = dirname(directory);
+    }
+    return '${workspaceFolder}/node_modules/vitest/vitest.mjs';
+}
+
+/** Fallback when the file is outside any Vitest project: run from the workspace folder */
+function getWorkspaceProject(symbol: SymbolInfo): VitestProject {
+    return { directory: '', relativeFile: vscode.workspace.asRelativePath(symbol.filePath, false) };
+}
+
+function getVitestArgs(symbol: SymbolInfo, project: VitestProject): string[] {
+    const pattern = getVitestNamePattern(symbol.path);
+    return ['run', project.relativeFile, ...(pattern ? ['-t', pattern] : [])];
+}
+
+/**
+ * Run the file's test or suite in a single forked worker, which the debugger attaches to
+ */
+async function createVitestDebugConfig(symbol: SymbolInfo): Promise<LanguageDebugConfig> {
+    const project = await findVitestProject(symbol) ?? getWorkspaceProject(symbol);
+    return {
+        name: `Vitest: ${parseTestBlock(symbol.name)?.name ?? symbol.name}`,
+        type: 'node',
+        request: 'launch',
+        program: await findVitestScript(symbol.workspaceRoot, project),
+        args: [...getVitestArgs(symbol, project), '--no-file-parallelism', '--pool', 'forks'],
+        cwd: workspaceFolderPath(project.directory),
+        console: 'integratedTerminal',
+        autoAttachChildProcesses: true,
+        smartStep: true,
+        skipFiles: ['<node_internals>/**']
+    };
+}
+
+async function createVitestTestConfig(symbol: SymbolInfo): Promise<LanguageTestConfig> {
+    const project = await findVitestProject(symbol) ?? getWorkspaceProject(symbol);
+    return {
+        framework: 'vitest',
+        testCommand: 'vitest',
+        args: getVitestArgs(symbol, project),
+        cwd: workspaceFolderPath(project.directory)
+    };
+}
 
 export const javascriptModule: LanguageModule = {
     language: 'javascript',
@@ -11,6 +118,17 @@ export const javascriptModule: LanguageModule = {
     defaultDebugType: 'node',
 
     frameworks: [
+        {
+            name: 'vitest',
+            filePatterns: ['**/vitest.config.*', '**/vitest.workspace.*'],
+            // Checked before Jest, which matches any package.json
+            priority: 12,
+            detect: async (symbol: SymbolInfo) => (await findVitestProject(symbol)) !== undefined,
+            debugConfig: createVitestDebugConfig,
+            testConfig: createVitestTestConfig,
+            setupInstructions: 'Install Vitest: npm install --save-dev vitest',
+            requirements: ['Node.js 18+', 'Vitest']
+        },
         {
             name: 'jest',
             filePatterns: ['**/*.test.js', '**/*.test.ts', '**/*.spec.js', '**/*.spec.ts', '**/test/**', '**/tests/**', 'jest.config.*', 'package.json'],
@@ -107,10 +225,27 @@ export const javascriptModule: LanguageModule = {
 npm install -g typescript ts-node
 
 # Install testing frameworks (as needed)
+npm install --save-dev vitest
 npm install --save-dev jest
 npm install --save-dev mocha
 \`\`\`
 
+## Vitest
+Vitest is used for files under a \`vitest.config.*\` or a package.json declaring \`vitest\`,
+ahead of Jest. The test or \`describe\` block under the cursor runs with its full name:
+\`\`\`json
+{
+    "name": "Vitest: adds an item",
+    "type": "node",
+    "request": "launch",
+    "program": "\${workspaceFolder}/node_modules/vitest/vitest.mjs",
+    "args": ["run", "src/cart.test.ts", "-t", "^Cart adds an item$", "--no-file-parallelism", "--pool", "forks"],
+    "autoAttachChildProcesses": true
+}
+\`\`\`
+Tests run one file at a time in a forked worker so breakpoints bind in the process the
+debugger attaches to.
+
 ## VSCode Configuration
 For TypeScript projects, ensure your tsconfig.json is properly configured.
 
@@ -142,7 +277,7 @@ For TypeScript projects, ensure your tsconfig.json is properly configured.
 ## Common Issues
 - Ensure ts-node is installed for TypeScript debugging
 - Check that your tsconfig.json is valid
-- For Jest/Mocha, make sure test files are properly named
+- For Vitest/Jest/Mocha, make sure test files are properly named
 - Verify node_modules directory exists and contains required packages
     `,
 
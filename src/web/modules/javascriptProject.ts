@@ -0,0 +1,89 @@
+// package.json dependencies and test-runner names of JavaScript/TypeScript test blocks
+
+/** Test runners told apart by their package.json dependencies */
+export type JavaScriptTestRunner = 'vitest' | 'jest' | 'mocha';
+
+/**
+ * A `describe`/`it` call as the TypeScript language server lists it in document symbols
+ */
+export interface TestBlock {
+    kind: 'suite' | 'test';
+    name: string;
+    /** `describe.each`/`it.each`, whose name is a template for each case */
+    parameterized: boolean;
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+const SUITE_FUNCTIONS = ['describe', 'suite', 'context'];
+const TEST_FUNCTIONS = ['it', 'test', 'bench', 'specify'];
+
+/**
+ * Test runners a package.json declares, in the order of `JavaScriptTestRunner`
+ */
+export function getDeclaredTestRunners(packageJson: string): JavaScriptTestRunner[] {
+    let manifest: Record<string, unknown>;
+    try {
+        manifest = JSON.parse(packageJson);
+    } catch (error) {
+        return [];
+    }
+
+    const declared = new Set<string>();
+    for (const field of DEPENDENCY_FIELDS) {
+        const dependencies = manifest?.[field];
+        if (dependencies && typeof dependencies === 'object') {
+            Object.keys(dependencies).forEach(name => declared.add(name));
+        }
+    }
+    return (['vitest', 'jest', 'mocha'] as JavaScriptTestRunner[]).filter(runner => declared.has(runner));
+}
+
+/**
+ * The test block a document symbol stands for, from names such as `describe('Cart') callback`
+ * or `it.each("adds %s") callback`; undefined for other symbols
+ */
+export function parseTestBlock(symbolName: string): TestBlock | undefined {
+    const match = /^(\w+)((?:\.\w+)*)\s*\(\s*(['"`])(.*)\3\s*\)(?:\s+callback)?$/.exec(symbolName.trim());
+    if (!match) {
+        return undefined;
+    }
+    const [, callee, modifiers, , name] = match;
+    const parameterized = /\.(each|for)\b/.test(modifiers);
+    if (SUITE_FUNCTIONS.includes(callee)) {
+        return { kind: 'suite', name, parameterized };
+    }
+    return TEST_FUNCTIONS.includes(callee) ? { kind: 'test', name, parameterized } : undefined;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Pattern for a block name; the `%s` and `$property` placeholders of parameterized blocks
+ * match any text
+ */
+function getBlockPattern(block: TestBlock): string {
+    if (!block.parameterized) {
+        return escapeRegExp(block.name);
+    }
+    return block.name
+        .split(/(%%|%[sdifjoO#]|\$[\w.]+)/)
+        .map((part, index) => index % 2 === 0 ? escapeRegExp(part) : part === '%%' ? '%' : '.*')
+        .join('');
+}
+
+/**
+ * Vitest `-t` pattern selecting the test or suite at the end of a symbol path. Vitest matches
+ * it against the suite and test names joined by spaces, so a test is anchored at both ends and
+ * a suite matches every test below it. Undefined when the path holds no test block.
+ */
+export function getVitestNamePattern(symbolPath: string[]): string | undefined {
+    const blocks = symbolPath.map(parseTestBlock).filter((block): block is TestBlock => block !== undefined);
+    if (blocks.length === 0) {
+        return undefined;
+    }
+    const fullName = blocks.map(getBlockPattern).join(' ');
+    return blocks[blocks.length - 1].kind === 'test' ? `^${fullName}$` : `^${fullName} `;
+}
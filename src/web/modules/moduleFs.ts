@@ -0,0 +1,46 @@
+// File access and path helpers shared by the language modules
+
+import * as vscode from 'vscode';
+
+/**
+ * Contents of a file, or undefined when it cannot be read
+ */
+export async function readText(file: string | vscode.Uri): Promise<string | undefined> {
+    try {
+        const uri = typeof file === 'string' ? vscode.Uri.file(file) : file;
+        return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    } catch (error) {
+        return undefined;
+    }
+}
+
+export async function exists(path: string): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(vscode.Uri.file(path));
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Directory part of a `/`-separated path, '' for a bare file name
+ */
+export function dirname(path: string): string {
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/**
+ * Path of `path` relative to the workspace root, '' for the root itself
+ */
+export function relativeToRoot(path: string, workspaceRoot: string): string {
+    return path === workspaceRoot ? '' : path.substring(workspaceRoot.length + 1);
+}
+
+/**
+ * A path relative to the workspace folder as launch.json writes it, under `${workspaceFolder}`
+ */
+export function workspaceFolderPath(relativePath: string): string {
+    return relativePath ? `\${workspaceFolder}/${relativePath}` : '${workspaceFolder}';
+}
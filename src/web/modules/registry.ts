@@ -1,11 +1,15 @@
 // Language module registry and manager
 
 import * as vscode from 'vscode';
-import { LanguageModule, LanguageFramework } from './types';
+import { LanguageModule, LanguageFramework, LanguageDebugConfig } from './types';
 import { SymbolInfo } from '../config/debugCommandGenerator';
 import { pythonModule } from './python';
 import { golangModule } from './golang';
 import { javascriptModule } from './javascript';
+import { rustModule } from './rust';
+import { javaModule } from './java';
+import { cppModule } from './cpp';
+import { dotnetModule } from './dotnet';
 import { createModuleLogger } from '../util/logger';
 
 const log = createModuleLogger('Registry');
@@ -29,10 +33,16 @@ export class LanguageModuleRegistry {
         this.register(pythonModule);
         this.register(golangModule);
         this.register(javascriptModule);
+        this.register(rustModule);
+        this.register(javaModule);
+        this.register(cppModule);
+        this.register(dotnetModule);
         // TypeScript files report languageId='typescript' in VS Code; alias the JS module for them
         this.modules.set('typescript', javascriptModule);
         this.modules.set('typescriptreact', javascriptModule);
         this.modules.set('javascriptreact', javascriptModule);
+        // clangd and the C/C++ extension report C sources as 'c'
+        this.modules.set('c', cppModule);
     }
 
     public register(module: LanguageModule): void {
@@ -86,6 +96,14 @@ export class LanguageModuleRegistry {
     }
 
     private async matchesFramework(symbol: SymbolInfo, framework: LanguageFramework): Promise<boolean> {
+        if (framework.detect) {
+            try {
+                return await framework.detect(symbol);
+            } catch (error) {
+                log.debug(`Failed to detect ${framework.name}:`, error);
+                return false;
+            }
+        }
         for (const pattern of framework.filePatterns) {
             try {
                 const files = await vscode.workspace.findFiles(pattern, null, 1);
@@ -115,6 +133,11 @@ export class LanguageModuleRegistry {
         return module.defaultConfig(symbol.filePath, symbol.workspaceRoot);
     }
 
+    public async generateCompanionConfigs(symbol: SymbolInfo): Promise<LanguageDebugConfig[]> {
+        const framework = await this.detectFramework(symbol);
+        return framework?.companionConfigs ? framework.companionConfigs(symbol) : [];
+    }
+
     public async generateTestConfig(symbol: SymbolInfo): Promise<any | null> {
         const framework = await this.detectFramework(symbol);
         if (framework && framework.testConfig) {
@@ -139,6 +162,9 @@ export class LanguageModuleRegistry {
         const extensionRequirements: Record<string, string[]> = {
             python: ['ms-python.python'],
             go: ['golang.go'],
+            rust: ['vadimcn.vscode-lldb'],
+            java: ['vscjava.vscode-java-debug'],
+            csharp: ['ms-dotnettools.csharp'],
         };
 
         const required = extensionRequirements[language.toLowerCase()];
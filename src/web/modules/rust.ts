@@ -0,0 +1,297 @@
+// Rust language debugging module
+
+import * as vscode from 'vscode';
+import { LanguageModule, LanguageDebugConfig, LanguageTestConfig } from './types';
+import { SymbolInfo } from '../config/debugCommandGenerator';
+import {
+    CargoManifest,
+    CargoTarget,
+    getCargoTargetArgs,
+    isRustTestFunction,
+    isWorkspaceMember,
+    parseCargoManifest,
+    resolveCargoTarget
+} from './rustProject';
+import { dirname, exists, readText, relativeToRoot } from './moduleFs';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('Rust');
+
+/**
+ * Everything needed to build and start one symbol with CodeLLDB's `cargo` launch property
+ */
+interface CargoLaunchPlan {
+    target: CargoTarget;
+    /** `--package=...` inside a cargo workspace, `--manifest-path=...` for a nested crate or workspace */
+    packageArgs: string[];
+    /** Crate directory for the launched program, which is where `cargo test` would run it */
+    cwd: string;
+    /** libtest filter for a test function or test module; undefined runs the whole target */
+    testFilter?: string;
+    exact: boolean;
+}
+
+/**
+ * Find the crate owning a file, and how cargo should select it: the nearest Cargo.toml with a
+ * `[package]`, then a workspace manifest above it that lists it as a member
+ */
+async function findCrate(filePath: string, workspaceRoot: string): Promise<{ directory: string; manifest: CargoManifest; packageArgs: string[] } | undefined> {
+    let directory = dirname(filePath);
+    let crate: { directory: string; manifest: CargoManifest } | undefined;
+
+    while (directory.startsWith(workspaceRoot)) {
+        const text = await readText(`${directory}/Cargo.toml`);
+        const manifest = text !== undefined ? parseCargoManifest(text) : undefined;
+        if (manifest && !crate && manifest.packageName) {
+            crate = { directory, manifest };
+        }
+        if (crate && manifest?.workspaceMembers &&
+            (directory === crate.directory || isWorkspaceMember(manifest, relativeToRoot(crate.directory, directory)))) {
+            // Cargo runs from the VS Code folder, so a workspace below it needs its manifest named
+            const relativeWorkspace = relativeToRoot(directory, workspaceRoot);
+            return {
+                ...crate,
+                packageArgs: [
+                    `--package=${crate.manifest.packageName}`,
+                    ...(relativeWorkspace ? [`--manifest-path=${relativeWorkspace}/Cargo.toml`] : [])
+                ]
+            };
+        }
+        if (directory === workspaceRoot) {
+            break;
+        }
+        directory = dirname(directory);
+    }
+
+    if (!crate) {
+        return undefined;
+    }
+    const relative = relativeToRoot(crate.directory, workspaceRoot);
+    return { ...crate, packageArgs: relative ? [`--manifest-path=${relative}/Cargo.toml`] : [] };
+}
+
+/**
+ * Resolve the crate, target and test filter for a symbol; undefined outside a cargo project
+ */
+async function createLaunchPlan(symbol: SymbolInfo): Promise<CargoLaunchPlan | undefined> {
+    const crate = await findCrate(symbol.filePath, symbol.workspaceRoot);
+    if (!crate) {
+        log.debug(`No Cargo.toml with a package above ${symbol.filePath}`);
+        return undefined;
+    }
+
+    const relativePath = symbol.filePath.substring(crate.directory.length + 1);
+    const hasLib = crate.manifest.libPath !== undefined || crate.manifest.libName !== undefined || await exists(`${crate.directory}/src/lib.rs`);
+    const target = resolveCargoTarget(crate.manifest, relativePath, hasLib);
+    if (!target) {
+        return undefined;
+    }
+
+    const relativeCrate = relativeToRoot(crate.directory, symbol.workspaceRoot);
+    const plan: CargoLaunchPlan = {
+        target,
+        packageArgs: crate.packageArgs,
+        cwd: relativeCrate ? `\${workspaceFolder}/${relativeCrate}` : '${workspaceFolder}',
+        exact: false
+    };
+
+    // Test functions run alone; a module such as `mod tests` runs everything under it
+    const source = await readText(symbol.filePath) || '';
+    if (symbol.kind === vscode.SymbolKind.Module) {
+        plan.testFilter = [...target.modulePath, ...symbol.path].join('::');
+    } else if (isRustTestFunction(source, symbol.name)) {
+        plan.testFilter = [...target.modulePath, ...symbol.path].join('::');
+        plan.exact = true;
+    } else if (target.kind === 'lib' && target.modulePath.length > 0) {
+        // A library function has nothing to launch; run the tests of its module instead
+        plan.testFilter = target.modulePath.join('::');
+    }
+    return plan;
+}
+
+/**
+ * Arguments for the test binary: the filter, then `--exact` for a single test
+ */
+function getTestArgs(plan: CargoLaunchPlan): string[] {
+    if (plan.target.kind === 'bench' && plan.testFilter === undefined) {
+        return ['--bench'];
+    }
+    if (plan.testFilter === undefined) {
+        return [];
+    }
+    return plan.exact ? [plan.testFilter, '--exact', '--nocapture'] : [plan.testFilter, '--nocapture'];
+}
+
+/**
+ * Whether the symbol runs through a test harness rather than as a plain executable
+ */
+function isTestPlan(plan: CargoLaunchPlan): boolean {
+    return plan.testFilter !== undefined || plan.target.kind === 'lib' || plan.target.kind === 'test' || plan.target.kind === 'bench';
+}
+
+function getConfigName(plan: CargoLaunchPlan): string {
+    if (plan.testFilter !== undefined) {
+        return `Rust Test: ${plan.testFilter}`;
+    }
+    switch (plan.target.kind) {
+        case 'example':
+            return `Rust Example: ${plan.target.name}`;
+        case 'bench':
+            return `Rust Bench: ${plan.target.name}`;
+        case 'test':
+            return `Rust Test: ${plan.target.name}`;
+        case 'lib':
+            return `Rust Test: ${plan.target.name} (lib)`;
+        default:
+            return `Rust: ${plan.target.name}`;
+    }
+}
+
+/**
+ * CodeLLDB configuration that builds the symbol's target with cargo and launches the artifact
+ */
+async function createCargoDebugConfig(symbol: SymbolInfo): Promise<LanguageDebugConfig> {
+    const plan = await createLaunchPlan(symbol);
+    if (!plan) {
+        return rustModule.defaultConfig(symbol.filePath, symbol.workspaceRoot);
+    }
+
+    let subcommand = isTestPlan(plan) ? ['test', '--no-run'] : ['build'];
+    if (plan.target.kind === 'bench' && plan.testFilter === undefined) {
+        subcommand = ['bench', '--no-run'];
+    }
+    return {
+        name: getConfigName(plan),
+        type: 'lldb',
+        request: 'launch',
+        cargo: {
+            args: [...subcommand, ...getCargoTargetArgs(plan.target), ...plan.packageArgs],
+            filter: { name: plan.target.name, kind: plan.target.kind }
+        },
+        args: getTestArgs(plan),
+        cwd: plan.cwd
+    };
+}
+
+async function createCargoTestConfig(symbol: SymbolInfo): Promise<LanguageTestConfig> {
+    const plan = await createLaunchPlan(symbol);
+    if (!plan) {
+        return { framework: 'cargo', testCommand: 'cargo test', args: [], cwd: '${workspaceFolder}' };
+    }
+
+    // `cargo bench` passes `--bench` to the harness itself
+    const runsBenchmarks = plan.target.kind === 'bench' && plan.testFilter === undefined;
+    const testArgs = runsBenchmarks ? [] : getTestArgs(plan);
+    return {
+        framework: 'cargo',
+        testCommand: runsBenchmarks ? 'cargo bench' : 'cargo test',
+        args: [
+            ...getCargoTargetArgs(plan.target),
+            ...plan.packageArgs,
+            ...(testArgs.length > 0 ? ['--', ...testArgs] : [])
+        ],
+        cwd: '${workspaceFolder}'
+    };
+}
+
+export const rustModule: LanguageModule = {
+    language: 'rust',
+    displayName: 'Rust',
+    fileExtensions: ['rs'],
+    defaultDebugType: 'lldb',
+
+    frameworks: [
+        {
+            name: 'cargo',
+            filePatterns: ['**/Cargo.toml'],
+            priority: 10,
+            debugConfig: createCargoDebugConfig,
+            testConfig: createCargoTestConfig,
+            setupInstructions: 'Install Rust with rustup and the CodeLLDB extension',
+            requirements: ['Rust toolchain (cargo)', 'CodeLLDB extension for VS Code']
+        }
+    ],
+
+    defaultConfig: (filePath: string, workspaceRoot: string): LanguageDebugConfig => {
+        // Without reading Cargo.toml, assume the file belongs to a crate at the workspace root
+        const relativePath = filePath.replace(workspaceRoot, '').replace(/^[\/\\]/, '');
+        const target = resolveCargoTarget({ bins: [], tests: [], examples: [], benches: [] }, relativePath, false);
+        if (!target || !target.name) {
+            return {
+                name: 'Rust: Debug executable',
+                type: 'lldb',
+                request: 'launch',
+                cargo: { args: ['build'], filter: { kind: 'bin' } },
+                args: [],
+                cwd: '${workspaceFolder}'
+            };
+        }
+
+        const isExecutable = target.kind === 'bin' || target.kind === 'example';
+        return {
+            name: `Rust: ${target.name}`,
+            type: 'lldb',
+            request: 'launch',
+            cargo: {
+                args: [...(isExecutable ? ['build'] : ['test', '--no-run']), ...getCargoTargetArgs(target)],
+                filter: { name: target.name, kind: target.kind }
+            },
+            args: [],
+            cwd: '${workspaceFolder}'
+        };
+    },
+
+    setupInstructions: `
+# Rust Debugging Setup
+
+## Required Extensions
+1. **CodeLLDB** (vadimcn.vscode-lldb) - Debugger for Rust and other LLVM languages
+2. **rust-analyzer** (rust-lang.rust-analyzer) - Symbols for "Debug Function"
+
+## Installation
+\`\`\`bash
+# Install Rust with rustup
+curl --proto '=https' --tlsv1.2 -sSf https://sh.rustup.rs | sh
+\`\`\`
+
+## Debugging Support
+Configurations use CodeLLDB's \`cargo\` property: cargo builds the target and the debugger
+launches the artifact it reports, so there is no hard-coded \`target/debug\` path.
+
+**Targets** are resolved from Cargo.toml and cargo's directory conventions:
+- \`src/main.rs\` and \`src/bin/*.rs\` → binaries (\`--bin\`)
+- other files under \`src/\` → the library (\`--lib\`) when the crate has one
+- \`tests/*.rs\` → integration tests (\`--test\`)
+- \`examples/*.rs\` → examples (\`--example\`)
+- \`benches/*.rs\` → benchmarks (\`--bench\`)
+
+In a cargo workspace the crate is selected with \`--package\`, and with \`--manifest-path\` as well
+when the workspace sits in a subdirectory of the folder.
+
+**Tests**: selecting a \`#[test]\` function runs it alone; selecting a module such as
+\`mod tests\` runs every test under it.
+
+**Generated Debug Configuration:**
+\`\`\`json
+{
+    "name": "Rust Test: parser::tests::parses_empty_input",
+    "type": "lldb",
+    "request": "launch",
+    "cargo": {
+        "args": ["test", "--no-run", "--lib", "--package=my-crate"],
+        "filter": { "name": "my_crate", "kind": "lib" }
+    },
+    "args": ["parser::tests::parses_empty_input", "--exact", "--nocapture"],
+    "cwd": "\${workspaceFolder}/crates/my-crate"
+}
+\`\`\`
+
+## Common Issues
+- Ensure \`cargo\` is on the PATH of the VS Code process
+- rust-analyzer must be running for function-level debugging
+- On Windows with the MSVC toolchain, CodeLLDB works but natvis visualizers are limited
+    `,
+
+    requirements: ['Rust toolchain (cargo)', 'CodeLLDB extension for VS Code'],
+    documentation: 'https://code.visualstudio.com/docs/languages/rust'
+};
@@ -0,0 +1,246 @@
+// Cargo manifests and the targets Rust source files belong to, without running cargo
+
+export type CargoTargetKind = 'lib' | 'bin' | 'test' | 'example' | 'bench';
+
+/**
+ * A `[[bin]]`, `[[test]]`, `[[example]]` or `[[bench]]` table; `path` is relative to the crate
+ */
+export interface CargoTargetDeclaration {
+    name: string;
+    path?: string;
+}
+
+/**
+ * The parts of a Cargo.toml needed to name targets. A virtual workspace manifest has
+ * no package name.
+ */
+export interface CargoManifest {
+    packageName?: string;
+    libName?: string;
+    libPath?: string;
+    bins: CargoTargetDeclaration[];
+    tests: CargoTargetDeclaration[];
+    examples: CargoTargetDeclaration[];
+    benches: CargoTargetDeclaration[];
+    /** `[workspace] members` globs, when the manifest declares a workspace */
+    workspaceMembers?: string[];
+    workspaceExclude?: string[];
+}
+
+/**
+ * The cargo target a source file is compiled into, and the file's module path inside it
+ */
+export interface CargoTarget {
+    kind: CargoTargetKind;
+    name: string;
+    modulePath: string[];
+}
+
+const TARGET_TABLES: Record<string, 'bins' | 'tests' | 'examples' | 'benches'> = {
+    bin: 'bins',
+    test: 'tests',
+    example: 'examples',
+    bench: 'benches'
+};
+
+/** Directories whose files each become a target of their own, by cargo's auto-discovery */
+const TARGET_DIRECTORIES: [string, CargoTargetKind][] = [
+    ['src/bin/', 'bin'],
+    ['tests/', 'test'],
+    ['examples/', 'example'],
+    ['benches/', 'bench']
+];
+
+/**
+ * Drop a `#` comment that is not inside a string
+ */
+function stripComment(line: string): string {
+    let quote: string | undefined;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quote) {
+            if (char === '\\' && quote === '"') {
+                i++;
+            } else if (char === quote) {
+                quote = undefined;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '#') {
+            return line.slice(0, i);
+        }
+    }
+    return line;
+}
+
+/**
+ * Strings of a TOML value: a single string or an array of them
+ */
+function parseStrings(value: string): string[] {
+    return [...value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)].map(match => match[2] ?? match[1].replace(/\\(.)/g, '$1'));
+}
+
+/**
+ * Read the package, target and workspace tables of a Cargo.toml. Only plain `key = value`
+ * lines are understood, which is what manifests use for these keys; inline tables such
+ * as `package = { name = ... }` are ignored.
+ */
+export function parseCargoManifest(text: string): CargoManifest {
+    const manifest: CargoManifest = { bins: [], tests: [], examples: [], benches: [] };
+    let table = '';
+    let target: CargoTargetDeclaration | undefined;
+    let pending: { key: string; value: string } | undefined;
+
+    const assign = (key: string, value: string) => {
+        const [first] = parseStrings(value);
+        if (table === 'package' && key === 'name') {
+            manifest.packageName = first;
+        } else if (table === 'lib' && key === 'name') {
+            manifest.libName = first;
+        } else if (table === 'lib' && key === 'path') {
+            manifest.libPath = first;
+        } else if (target && key === 'name') {
+            target.name = first ?? '';
+        } else if (target && key === 'path') {
+            target.path = first;
+        } else if (table === 'workspace' && key === 'members') {
+            manifest.workspaceMembers = parseStrings(value);
+        } else if (table === 'workspace' && key === 'exclude') {
+            manifest.workspaceExclude = parseStrings(value);
+        }
+    };
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = stripComment(rawLine).trim();
+
+        // Arrays such as workspace members usually span several lines
+        if (pending) {
+            pending.value += ` ${line}`;
+            if (line.includes(']')) {
+                assign(pending.key, pending.value);
+                pending = undefined;
+            }
+            continue;
+        }
+
+        const header = /^\[(\[)?\s*([\w.-]+)\s*\]?\]$/.exec(line);
+        if (header) {
+            table = header[2];
+            target = undefined;
+            const list = header[1] ? TARGET_TABLES[table] : undefined;
+            if (list) {
+                target = { name: '' };
+                manifest[list].push(target);
+            }
+            if (table === 'workspace') {
+                manifest.workspaceMembers = manifest.workspaceMembers || [];
+            }
+            continue;
+        }
+
+        const entry = /^([\w-]+)\s*=\s*(.*)$/.exec(line);
+        if (!entry) {
+            continue;
+        }
+        if (entry[2].startsWith('[') && !entry[2].includes(']')) {
+            pending = { key: entry[1], value: entry[2] };
+        } else {
+            assign(entry[1], entry[2]);
+        }
+    }
+    return manifest;
+}
+
+/**
+ * Whether a crate directory, relative to the workspace manifest, is one of its members.
+ * Member globs support `*` and `?` within a path segment.
+ */
+export function isWorkspaceMember(manifest: CargoManifest, crateDirectory: string): boolean {
+    const matches = (pattern: string) => {
+        const expression = pattern.replace(/\/+$/, '').split('/')
+            .map(segment => segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+            .join('/');
+        return new RegExp(`^${expression}$`).test(crateDirectory);
+    };
+    return (manifest.workspaceMembers || []).some(matches) && !(manifest.workspaceExclude || []).some(matches);
+}
+
+/**
+ * Module path of a file relative to the directory of its target's root file
+ */
+function getModulePath(relativePath: string, rootFile: string): string[] {
+    if (relativePath === rootFile) {
+        return [];
+    }
+    const segments = relativePath.replace(/\.rs$/, '').split('/');
+    if (segments[segments.length - 1] === 'mod') {
+        segments.pop();
+    }
+    return segments;
+}
+
+/**
+ * Name of the library target: `[lib] name`, or the package name with dashes replaced
+ */
+export function getLibName(manifest: CargoManifest): string {
+    return manifest.libName || (manifest.packageName || '').replace(/-/g, '_');
+}
+
+/**
+ * Target a source file belongs to, following the paths declared in the manifest first and
+ * cargo's target auto-discovery otherwise. `relativePath` is relative to the crate directory;
+ * `hasLib` says whether the crate has a library, as `src/lib.rs` is not visible from the manifest.
+ */
+export function resolveCargoTarget(manifest: CargoManifest, relativePath: string, hasLib: boolean): CargoTarget | undefined {
+    const declared: [CargoTargetDeclaration[], CargoTargetKind][] = [
+        [manifest.bins, 'bin'], [manifest.tests, 'test'], [manifest.examples, 'example'], [manifest.benches, 'bench']
+    ];
+    for (const [targets, kind] of declared) {
+        const target = targets.find(candidate => candidate.path?.replace(/^\.\//, '') === relativePath);
+        if (target) {
+            return { kind, name: target.name, modulePath: [] };
+        }
+    }
+
+    for (const [directory, kind] of TARGET_DIRECTORIES) {
+        if (!relativePath.startsWith(directory)) {
+            continue;
+        }
+        const rest = relativePath.slice(directory.length);
+        const slash = rest.indexOf('/');
+        // A single file target, or a directory target rooted at its main.rs
+        if (slash === -1) {
+            return { kind, name: rest.replace(/\.rs$/, ''), modulePath: [] };
+        }
+        return { kind, name: rest.slice(0, slash), modulePath: getModulePath(rest.slice(slash + 1), 'main.rs') };
+    }
+
+    if (!relativePath.startsWith('src/')) {
+        return undefined;
+    }
+    const source = relativePath.slice('src/'.length);
+    const libPath = (manifest.libPath || 'src/lib.rs').replace(/^\.\//, '');
+    if (relativePath === 'src/main.rs' || !hasLib) {
+        return { kind: 'bin', name: manifest.packageName || '', modulePath: getModulePath(source, 'main.rs') };
+    }
+    return { kind: 'lib', name: getLibName(manifest), modulePath: relativePath === libPath ? [] : getModulePath(source, 'lib.rs') };
+}
+
+/**
+ * cargo flag selecting a target, e.g. `--lib` or `--bin=server`
+ */
+export function getCargoTargetArgs(target: CargoTarget): string[] {
+    return target.kind === 'lib' ? ['--lib'] : [`--${target.kind}=${target.name}`];
+}
+
+/**
+ * Whether `name` is a function marked as a test, such as `#[test]`, `#[tokio::test]` or `#[rstest]`
+ */
+export function isRustTestFunction(source: string, name: string): boolean {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(
+        `#\\[(?:[\\w:]+::)?\\w*test\\b[^\\]]*\\]\\s*(?:#\\[[^\\]]*\\]\\s*)*` +
+        `(?:pub(?:\\([^)]*\\))?\\s+)?(?:(?:async|unsafe|const)\\s+)*fn\\s+${escaped}\\b`
+    );
+    return pattern.test(source);
+}
@@ -22,8 +22,12 @@ export interface LanguageFramework {
     name: string;
     filePatterns: string[];
     priority: number; // Higher number = higher priority
+    /** Decides whether the framework applies to a symbol; `filePatterns` are searched when absent */
+    detect?: (symbol: SymbolInfo) => Promise<boolean>;
     debugConfig: ((symbol: SymbolInfo) => LanguageDebugConfig) | ((symbol: SymbolInfo) => Promise<LanguageDebugConfig>);
     testConfig?: ((symbol: SymbolInfo) => LanguageTestConfig) | ((symbol: SymbolInfo) => Promise<LanguageTestConfig>);
+    /** Further configurations the generated one relies on, saved alongside it when missing */
+    companionConfigs?: (symbol: SymbolInfo) => Promise<LanguageDebugConfig[]>;
     setupInstructions?: string;
     requirements?: string[];
 }
@@ -0,0 +1,30 @@
+import { strict as assert } from 'assert';
+import { allSupportNoDebug, supportsNoDebug } from '../../config/noDebugSupport';
+import { LaunchConfiguration } from '../../core/types';
+
+function config(type: string, request: string = 'launch'): LaunchConfiguration {
+    return { name: `${type} ${request}`, type, request };
+}
+
+suite('noDebugSupport', () => {
+    test('supports launch requests of known adapters', () => {
+        for (const type of ['node', 'python', 'debugpy', 'go', 'java', 'coreclr', 'cppdbg', 'lldb']) {
+            assert.equal(supportsNoDebug(config(type)), true, type);
+        }
+    });
+
+    test('rejects attach requests', () => {
+        assert.equal(supportsNoDebug(config('node', 'attach')), false);
+    });
+
+    test('rejects unknown adapters', () => {
+        assert.equal(supportsNoDebug(config('chrome')), false);
+        assert.equal(supportsNoDebug(config('my-custom-adapter')), false);
+    });
+
+    test('requires every configuration of a run to support noDebug', () => {
+        assert.equal(allSupportNoDebug([config('node'), config('go')]), true);
+        assert.equal(allSupportNoDebug([config('node'), config('chrome')]), false);
+        assert.equal(allSupportNoDebug([]), false);
+    });
+});
@@ -0,0 +1,128 @@
+import { strict as assert } from 'assert';
+import { formatShellCommand, getShellKind, parseEnvFile, resolveCommandTemplate, substituteVariables, toCommandTemplate } from '../../config/terminalCommand';
+
+suite('terminalCommand', () => {
+    suite('toCommandTemplate', () => {
+        test('runs a python module with its interpreter', () => {
+            const template = toCommandTemplate({
+                name: 'pytest', type: 'debugpy', request: 'launch',
+                module: 'pytest', args: ['tests/test_app.py::test_one'], python: '/venv/bin/python', cwd: '${workspaceFolder}'
+            });
+            assert.equal(template.command, '/venv/bin/python');
+            assert.deepEqual(template.args, ['-m', 'pytest', 'tests/test_app.py::test_one']);
+            assert.equal(template.cwd, '${workspaceFolder}');
+        });
+
+        test('falls back to pythonPath and python for scripts', () => {
+            assert.equal(toCommandTemplate({ name: 'a', type: 'python', request: 'launch', program: 'a.py', pythonPath: 'py3' }).command, 'py3');
+            assert.deepEqual(toCommandTemplate({ name: 'b', type: 'python', request: 'launch', program: 'b.py' }).args, ['b.py']);
+        });
+
+        test('puts node runtime arguments before the program', () => {
+            const template = toCommandTemplate({
+                name: 'jest', type: 'node', request: 'launch',
+                runtimeExecutable: 'npx', runtimeArgs: ['jest'], program: 'src/app.test.ts', args: ['-t', 'adds numbers']
+            });
+            assert.equal(template.command, 'npx');
+            assert.deepEqual(template.args, ['jest', 'src/app.test.ts', '-t', 'adds numbers']);
+        });
+
+        test('maps go modes to go run and go test', () => {
+            assert.deepEqual(toCommandTemplate({ name: 'r', type: 'go', request: 'launch', program: './cmd/app' }).args, ['run', './cmd/app']);
+            const test = toCommandTemplate({ name: 't', type: 'go', request: 'launch', mode: 'test', program: './pkg', args: ['-test.run', '^TestX$'] });
+            assert.equal(test.command, 'go');
+            assert.deepEqual(test.args, ['test', './pkg', '-test.run', '^TestX$']);
+        });
+
+        test('runs .NET assemblies through dotnet', () => {
+            const template = toCommandTemplate({ name: 'app', type: 'coreclr', request: 'launch', program: 'bin/Debug/net8.0/App.dll' });
+            assert.equal(template.command, 'dotnet');
+            assert.deepEqual(template.args, ['bin/Debug/net8.0/App.dll']);
+        });
+
+        test('runs native programs directly', () => {
+            const template = toCommandTemplate({ name: 'app', type: 'lldb', request: 'launch', program: './target/debug/app', args: '--verbose --port 80' });
+            assert.equal(template.command, './target/debug/app');
+            assert.deepEqual(template.args, ['--verbose', '--port', '80']);
+        });
+
+        test('runs CodeLLDB cargo configurations with cargo', () => {
+            const test = toCommandTemplate({
+                name: 't', type: 'lldb', request: 'launch',
+                cargo: { args: ['test', '--no-run', '--lib', '--package=core'], filter: { kind: 'lib' } }, args: ['cart::adds', '--exact']
+            });
+            assert.equal(test.command, 'cargo');
+            assert.deepEqual(test.args, ['test', '--lib', '--package=core', '--', 'cart::adds', '--exact']);
+            assert.deepEqual(toCommandTemplate({ name: 'b', type: 'lldb', request: 'launch', cargo: { args: ['build', '--bin=server'] } }).args, ['run', '--bin=server']);
+            assert.deepEqual(toCommandTemplate({ name: 'c', type: 'lldb', request: 'launch', cargo: { args: ['bench', '--no-run', '--bench=sort'] } }).args, ['bench', '--bench=sort']);
+        });
+
+        test('stringifies env and drops unset entries', () => {
+            const template = toCommandTemplate({ name: 'n', type: 'node', request: 'launch', program: 'a.js', env: { PORT: 80, DEBUG: null } });
+            assert.deepEqual(template.env, { PORT: '80' });
+        });
+
+        test('throws when nothing can be run', () => {
+            assert.throws(() => toCommandTemplate({ name: 'attach', type: 'node', request: 'attach', port: 9229 }), /attaches to a running process/);
+            assert.throws(() => toCommandTemplate({ name: 'empty', type: 'node', request: 'launch' }), /has no program/);
+        });
+    });
+
+    suite('parseEnvFile', () => {
+        test('reads assignments, quotes, comments and export', () => {
+            const env = parseEnvFile([
+                '# comment',
+                'PLAIN=value',
+                'export EXPORTED=1',
+                'QUOTED="with spaces"',
+                'SINGLE=\'raw\\n\'',
+                'TRAILING=value # comment',
+                '',
+                'not an assignment'
+            ].join('\n'));
+            assert.deepEqual(env, {
+                PLAIN: 'value',
+                EXPORTED: '1',
+                QUOTED: 'with spaces',
+                SINGLE: 'raw\\n',
+                TRAILING: 'value'
+            });
+        });
+    });
+
+    suite('substituteVariables', () => {
+        test('replaces known variables and keeps unknown ones', () => {
+            assert.equal(
+                substituteVariables('${workspaceFolder}/src ${env:HOME}', { workspaceFolder: '/ws' }),
+                '/ws/src ${env:HOME}'
+            );
+        });
+
+        test('resolves every part of a template', () => {
+            const template = resolveCommandTemplate(
+                { command: '${workspaceFolder}/run', args: ['${file}'], cwd: '${workspaceFolder}', env: { ROOT: '${workspaceFolder}' } },
+                { workspaceFolder: '/ws', file: '/ws/a.py' }
+            );
+            assert.deepEqual(template, { command: '/ws/run', args: ['/ws/a.py'], cwd: '/ws', env: { ROOT: '/ws' } });
+        });
+    });
+
+    suite('formatShellCommand', () => {
+        test('recognizes the shell family from its path', () => {
+            assert.equal(getShellKind('/bin/zsh'), 'posix');
+            assert.equal(getShellKind('C:\\Program Files\\PowerShell\\7\\pwsh.exe'), 'powershell');
+            assert.equal(getShellKind('C:\\Windows\\System32\\cmd.exe'), 'cmd');
+            assert.equal(getShellKind(undefined), 'posix');
+        });
+
+        test('quotes shell syntax and empty arguments for POSIX shells', () => {
+            const command = formatShellCommand({ command: 'node', args: ['app.js', '', "it's", '$HOME; rm -rf `x`', '--flag=a b'] }, 'posix');
+            assert.equal(command, `node app.js '' 'it'\\''s' '$HOME; rm -rf \`x\`' '--flag=a b'`);
+        });
+
+        test('uses single quotes and the call operator for PowerShell', () => {
+            const command = formatShellCommand({ command: 'C:\\My Tools\\app.exe', args: ["it's", '$env:PATH'] }, 'powershell');
+            assert.equal(command, `& 'C:\\My Tools\\app.exe' 'it''s' '$env:PATH'`);
+        });
+    });
+});
@@ -0,0 +1,59 @@
+import { strict as assert } from 'assert';
+import { resolveConfiguration, resolveString, VariableContext } from '../../config/variableResolver';
+
+const CONTEXT: VariableContext = {
+    variables: { workspaceFolder: '/ws/app', file: '/ws/app/src/main.py', userHome: undefined },
+    folders: { app: '/ws/app', api: '/ws/api' },
+    config: key => ({ 'python.defaultInterpreterPath': '/venv/bin/python', 'editor.rulers': [80] } as Record<string, unknown>)[key]
+};
+
+suite('variableResolver', () => {
+    test('substitutes predefined variables', () => {
+        assert.deepEqual(resolveString('${workspaceFolder}/out/${file}', CONTEXT), [{ text: '/ws/app/out//ws/app/src/main.py' }]);
+    });
+
+    test('keeps strings without variables as a single segment', () => {
+        assert.deepEqual(resolveString('plain', CONTEXT), [{ text: 'plain' }]);
+        assert.deepEqual(resolveString('', CONTEXT), [{ text: '' }]);
+    });
+
+    test('resolves settings and named workspace folders', () => {
+        assert.deepEqual(resolveString('${config:python.defaultInterpreterPath}', CONTEXT), [{ text: '/venv/bin/python' }]);
+        assert.deepEqual(resolveString('${workspaceFolder:api}/main.go', CONTEXT), [{ text: '/ws/api/main.go' }]);
+    });
+
+    test('marks variables that cannot be resolved statically', () => {
+        const segments = resolveString('--token=${input:token} --home=${userHome}', CONTEXT);
+        assert.deepEqual(segments.map(segment => segment.text), ['--token=', '${input:token}', ' --home=', '${userHome}']);
+        assert.match(segments[1].unresolved || '', /asked for when the session starts/);
+        assert.match(segments[3].unresolved || '', /No value/);
+
+        assert.ok(resolveString('${env:HOME}', CONTEXT)[0].unresolved);
+        assert.ok(resolveString('${command:pickProcess}', CONTEXT)[0].unresolved);
+        assert.ok(resolveString('${config:editor.rulers}', CONTEXT)[0].unresolved);
+        assert.ok(resolveString('${workspaceFolder:web}', CONTEXT)[0].unresolved);
+        assert.match(resolveString('${nope}', CONTEXT)[0].unresolved || '', /Unknown variable/);
+    });
+
+    test('resolves env variables when the environment is known', () => {
+        const context = { ...CONTEXT, env: { HOME: '/home/dev' } };
+        assert.deepEqual(resolveString('${env:HOME}/${env:MISSING}x', context), [{ text: '/home/dev/x' }]);
+    });
+
+    test('lists every leaf of a configuration by path', () => {
+        const properties = resolveConfiguration({
+            name: 'App',
+            args: ['--root', '${workspaceFolder}'],
+            env: { TOKEN: '${input:token}' },
+            justMyCode: false,
+            envFile: {}
+        }, CONTEXT);
+
+        assert.deepEqual(properties.map(property => property.path), ['name', 'args[0]', 'args[1]', 'env.TOKEN', 'justMyCode', 'envFile']);
+        assert.deepEqual(properties[2].segments, [{ text: '/ws/app' }]);
+        assert.equal(properties[2].original, '${workspaceFolder}');
+        assert.ok(properties[3].segments[0].unresolved);
+        assert.deepEqual(properties[4].segments, [{ text: 'false' }]);
+        assert.deepEqual(properties[5].segments, [{ text: '{}' }]);
+    });
+});
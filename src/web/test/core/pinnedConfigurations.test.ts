@@ -0,0 +1,58 @@
+// Tests for the persisted configuration pins
+
+import { strict as assert } from 'assert';
+import { PinnedConfigurations } from '../../core/pinnedConfigurations';
+import { createMemento } from '../util/memento';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const LAUNCH_A = 'file:///a/.vscode/launch.json';
+const LAUNCH_B = 'file:///b/.vscode/launch.json';
+
+// ---------------------------------------------------------------------------
+// PinnedConfigurations
+// ---------------------------------------------------------------------------
+
+suite('PinnedConfigurations', () => {
+    let pins: PinnedConfigurations;
+
+    setup(() => {
+        pins = new PinnedConfigurations(createMemento());
+    });
+
+    test('starts empty', () => {
+        assert.deepStrictEqual(pins.getPins(), []);
+        assert.strictEqual(pins.isPinned('App', LAUNCH_A), false);
+    });
+
+    test('pins in order without duplicates', async () => {
+        await pins.pin('App', LAUNCH_A);
+        await pins.pin('Tests', LAUNCH_A);
+        await pins.pin('App', LAUNCH_A);
+        assert.deepStrictEqual(pins.getPins().map(pin => pin.name), ['App', 'Tests']);
+    });
+
+    test('distinguishes launch files', async () => {
+        await pins.pin('App', LAUNCH_A);
+        assert.strictEqual(pins.isPinned('App', LAUNCH_A), true);
+        assert.strictEqual(pins.isPinned('App', LAUNCH_B), false);
+    });
+
+    test('unpins', async () => {
+        await pins.pin('App', LAUNCH_A);
+        await pins.pin('App', LAUNCH_B);
+        await pins.unpin('App', LAUNCH_A);
+        assert.deepStrictEqual(pins.getPins(), [{ name: 'App', launchUri: LAUNCH_B }]);
+    });
+
+    test('follows renames in the same launch file', async () => {
+        await pins.pin('App', LAUNCH_A);
+        await pins.pin('App', LAUNCH_B);
+        await pins.rename('App', 'Server', LAUNCH_A);
+        assert.strictEqual(pins.isPinned('Server', LAUNCH_A), true);
+        assert.strictEqual(pins.isPinned('App', LAUNCH_A), false);
+        assert.strictEqual(pins.isPinned('App', LAUNCH_B), true);
+    });
+});
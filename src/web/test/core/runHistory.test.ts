@@ -0,0 +1,72 @@
+// Tests for the persisted run history
+
+import { strict as assert } from 'assert';
+import { RunHistory } from '../../core/runHistory';
+import { createMemento } from '../util/memento';
+
+// ---------------------------------------------------------------------------
+// RunHistory
+// ---------------------------------------------------------------------------
+
+suite('RunHistory', () => {
+    let history: RunHistory;
+
+    setup(() => {
+        history = new RunHistory(createMemento());
+    });
+
+    test('starts empty', () => {
+        assert.deepStrictEqual(history.getEntries(), []);
+        assert.strictEqual(history.getLast(), undefined);
+    });
+
+    test('records launches newest first as running', async () => {
+        await history.record({ name: 'App', mode: 'run' });
+        await history.record({ name: 'Tests', mode: 'debug' });
+        const entries = history.getEntries();
+        assert.deepStrictEqual(entries.map(entry => entry.name), ['Tests', 'App']);
+        assert.ok(entries.every(entry => entry.status === 'running'));
+        assert.notStrictEqual(entries[0].id, entries[1].id);
+    });
+
+    test('getLast filters by mode', async () => {
+        await history.record({ name: 'App', mode: 'run' });
+        await history.record({ name: 'Tests', mode: 'debug' });
+        assert.strictEqual(history.getLast('run')?.name, 'App');
+        assert.strictEqual(history.getLast('debug')?.name, 'Tests');
+        assert.strictEqual(history.getLast()?.name, 'Tests');
+    });
+
+    test('keeps only the most recent ten entries', async () => {
+        for (let i = 0; i < 12; i++) {
+            await history.record({ name: `Config ${i}`, mode: 'run' });
+        }
+        const entries = history.getEntries();
+        assert.strictEqual(entries.length, 10);
+        assert.strictEqual(entries[0].name, 'Config 11');
+    });
+
+    test('setStatus updates only the matching entry', async () => {
+        const first = await history.record({ name: 'App', mode: 'run' });
+        await history.record({ name: 'Tests', mode: 'run' });
+        await history.setStatus(first.id, 'failed', 1);
+        const [tests, app] = history.getEntries();
+        assert.strictEqual(app.status, 'failed');
+        assert.strictEqual(app.exitCode, 1);
+        assert.strictEqual(tests.status, 'running');
+    });
+
+    test('settleInterrupted marks running entries as stopped', async () => {
+        const done = await history.record({ name: 'App', mode: 'run' });
+        await history.setStatus(done.id, 'succeeded', 0);
+        await history.record({ name: 'Tests', mode: 'debug' });
+        await history.settleInterrupted();
+        assert.deepStrictEqual(history.getEntries().map(entry => entry.status), ['stopped', 'succeeded']);
+    });
+
+    test('clear removes all entries', async () => {
+        await history.record({ name: 'App', mode: 'run', compound: false });
+        await history.clear();
+        assert.deepStrictEqual(history.getEntries(), []);
+    });
+});
@@ -0,0 +1,72 @@
+// Tests for CMake build tree and C/C++ test discovery helpers
+
+import { strict as assert } from 'assert';
+import { findCMakeTarget, findCppTestForSymbol, findCppTests, hasCppMain, parseCMakeCache } from '../../modules/cppProject';
+
+const GTEST_SOURCE = `#include <gtest/gtest.h>
+
+// TEST(Disabled, Commented) {}
+TEST(ParserTest, ParsesEmptyInput) {}
+
+TEST_F(TokenizerFixture, SplitsWords) {}
+
+TEST_P(RangeTest, StaysInBounds) {}
+`;
+
+const CATCH2_SOURCE = `#include <catch2/catch_test_macros.hpp>
+
+TEST_CASE("vectors can be sized, and resized", "[vector]") {}
+
+SCENARIO("adding [items]") {}
+`;
+
+suite('cppProject', () => {
+    test('finds GoogleTest tests with their filters', () => {
+        const tests = findCppTests(GTEST_SOURCE);
+        assert.deepEqual(tests.map(test => test.filter), ['ParserTest.ParsesEmptyInput', 'TokenizerFixture.SplitsWords', '*/RangeTest.StaysInBounds/*']);
+        assert.ok(tests.every(test => test.framework === 'gtest'));
+    });
+
+    test('finds Catch2 test cases with escaped names', () => {
+        const tests = findCppTests(CATCH2_SOURCE);
+        assert.deepEqual(tests.map(test => test.name), ['vectors can be sized, and resized', 'Scenario: adding [items]']);
+        assert.deepEqual(tests.map(test => test.filter), ['vectors can be sized\\, and resized', 'Scenario: adding \\[items\\]']);
+    });
+
+    test('matches symbols by generated class name or by offset', () => {
+        const tests = findCppTests(GTEST_SOURCE);
+        assert.equal(findCppTestForSymbol(tests, ['TokenizerFixture_SplitsWords_Test', 'TestBody'])?.name, 'SplitsWords');
+        assert.equal(findCppTestForSymbol(tests, ['TEST(ParserTest, ParsesEmptyInput)'])?.suite, 'ParserTest');
+        assert.equal(findCppTestForSymbol(tests, ['unknown'], GTEST_SOURCE.indexOf('StaysInBounds'))?.macro, 'TEST_P');
+        assert.equal(findCppTestForSymbol(tests, ['unknown'], 0), undefined);
+    });
+
+    test('detects main', () => {
+        assert.ok(hasCppMain('int main(int argc, char** argv) { return 0; }'));
+        assert.ok(!hasCppMain('/* int main() */ void run();'));
+    });
+
+    test('reads CMake cache entries', () => {
+        const cache = parseCMakeCache('# comment\n//Help text\nCMAKE_BUILD_TYPE:STRING=Debug\nCMAKE_HOME_DIRECTORY:INTERNAL=/ws/project\n');
+        assert.deepEqual(cache, { CMAKE_BUILD_TYPE: 'Debug', CMAKE_HOME_DIRECTORY: '/ws/project' });
+    });
+
+    test('finds the target of a source file for Makefile and Ninja builds', () => {
+        const makefiles = [{
+            directory: '/ws/build/tests',
+            file: '/ws/tests/parser_test.cpp',
+            command: '/usr/bin/c++ -g -o CMakeFiles/parser_tests.dir/parser_test.cpp.o -c /ws/tests/parser_test.cpp'
+        }];
+        assert.deepEqual(findCMakeTarget(makefiles, '/ws/tests/parser_test.cpp'),
+            { name: 'parser_tests', directory: '/ws/build/tests', executable: '/ws/build/tests/parser_tests' });
+
+        const ninja = [{
+            directory: '/ws/build',
+            file: '../src/main.cpp',
+            arguments: ['/usr/bin/c++', '-o', 'app/CMakeFiles/server.dir/src/main.cpp.o', '-c', '../src/main.cpp']
+        }];
+        assert.deepEqual(findCMakeTarget(ninja, '/ws/src/main.cpp'),
+            { name: 'server', directory: '/ws/build/app', executable: '/ws/build/app/server' });
+        assert.equal(findCMakeTarget(ninja, '/ws/src/other.cpp'), undefined);
+    });
+});
@@ -0,0 +1,93 @@
+// Tests for .csproj parsing and C# test discovery helpers
+
+import { strict as assert } from 'assert';
+import {
+    findCSharpTestAttribute,
+    getOutputAssembly,
+    getTestFilter,
+    getTestingPlatformArgs,
+    parseCsproj,
+    parseCSharpNamespace
+} from '../../modules/dotnetProject';
+
+const TEST_PROJECT = `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <TargetFrameworks>net8.0;net6.0</TargetFrameworks>
+    <!-- <AssemblyName>Old.Name</AssemblyName> -->
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="Microsoft.NET.Test.Sdk" Version="17.8.0" />
+    <PackageReference Include="xunit" Version="2.6.2" />
+  </ItemGroup>
+</Project>`;
+
+const TEST_SOURCE = `using Xunit;
+
+namespace Shop.Tests;
+
+public class CartTests
+{
+    // [Fact] public void Commented() {}
+    [Fact]
+    public void AddsItem() {}
+
+    [Theory, InlineData(1)]
+    public async Task RemovesItem(int count) {}
+
+    [NUnit.Framework.TestCase(2)]
+    public void Counts(int n) {}
+
+    private static Cart CreateCart() => new Cart();
+}`;
+
+suite('dotnetProject', () => {
+    test('reads target frameworks and the test framework of a project', () => {
+        const project = parseCsproj(TEST_PROJECT);
+        assert.deepEqual(project.targetFrameworks, ['net8.0', 'net6.0']);
+        assert.equal(project.assemblyName, undefined);
+        assert.equal(project.testFramework, 'xunit');
+        assert.ok(project.isTestProject);
+        assert.ok(!project.isExecutable);
+        assert.ok(!project.usesTestingPlatform);
+    });
+
+    test('recognizes Microsoft.Testing.Platform test projects', () => {
+        assert.ok(parseCsproj('<Project><ItemGroup><PackageReference Include="xunit.v3" Version="1.0.0" /></ItemGroup></Project>').usesTestingPlatform);
+        assert.ok(parseCsproj('<Project><PropertyGroup><EnableMSTestRunner>true</EnableMSTestRunner></PropertyGroup><ItemGroup><PackageReference Include="MSTest" /></ItemGroup></Project>').usesTestingPlatform);
+        assert.ok(!parseCsproj('<Project><PropertyGroup><OutputType>Exe</OutputType></PropertyGroup></Project>').usesTestingPlatform);
+    });
+
+    test('recognizes executables by output type and SDK', () => {
+        assert.ok(parseCsproj('<Project Sdk="Microsoft.NET.Sdk"><PropertyGroup><OutputType>Exe</OutputType></PropertyGroup></Project>').isExecutable);
+        assert.ok(parseCsproj('<Project Sdk="Microsoft.NET.Sdk.Web"></Project>').isExecutable);
+        assert.ok(!parseCsproj('<Project Sdk="Microsoft.NET.Sdk"></Project>').isExecutable);
+    });
+
+    test('computes the debug output assembly', () => {
+        const project = parseCsproj('<Project><PropertyGroup><TargetFramework>net8.0</TargetFramework><AssemblyName>$(MSBuildProjectName).Host</AssemblyName></PropertyGroup></Project>');
+        assert.equal(getOutputAssembly('src/Shop.Api/Shop.Api.csproj', project), 'src/Shop.Api/bin/Debug/net8.0/Shop.Api.Host.dll');
+        assert.equal(getOutputAssembly('App.csproj', parseCsproj('<TargetFramework>net6.0</TargetFramework>')), 'bin/Debug/net6.0/App.dll');
+    });
+
+    test('finds the namespace and test attributes of methods', () => {
+        assert.equal(parseCSharpNamespace(TEST_SOURCE), 'Shop.Tests');
+        assert.equal(parseCSharpNamespace('namespace Shop.Core {\n}'), 'Shop.Core');
+        assert.equal(findCSharpTestAttribute(TEST_SOURCE, 'AddsItem'), 'Fact');
+        assert.equal(findCSharpTestAttribute(TEST_SOURCE, 'RemovesItem'), 'Theory');
+        assert.equal(findCSharpTestAttribute(TEST_SOURCE, 'Counts'), 'TestCase');
+        assert.equal(findCSharpTestAttribute(TEST_SOURCE, 'CreateCart'), undefined);
+        assert.equal(findCSharpTestAttribute(TEST_SOURCE, 'Commented'), undefined);
+    });
+
+    test('builds dotnet test filters', () => {
+        assert.equal(getTestFilter('Shop.Tests.CartTests', 'AddsItem', 'Fact'), 'FullyQualifiedName=Shop.Tests.CartTests.AddsItem');
+        assert.equal(getTestFilter('Shop.Tests.CartTests', 'Counts', 'TestCase'), 'FullyQualifiedName~Shop.Tests.CartTests.Counts\\(');
+        assert.equal(getTestFilter('Shop.Tests.CartTests+Nested'), 'FullyQualifiedName~Shop.Tests.CartTests+Nested.');
+    });
+
+    test('selects tests on the command line of a test executable', () => {
+        assert.deepEqual(getTestingPlatformArgs('xunit', 'Shop.Tests.CartTests', 'AddsItem'), ['--filter-method', 'Shop.Tests.CartTests.AddsItem']);
+        assert.deepEqual(getTestingPlatformArgs('xunit', 'Shop.Tests.CartTests'), ['--filter-class', 'Shop.Tests.CartTests']);
+        assert.deepEqual(getTestingPlatformArgs('mstest', 'Shop.Tests.CartTests', 'AddsItem', 'TestMethod'), ['--filter', 'FullyQualifiedName=Shop.Tests.CartTests.AddsItem']);
+    });
+});
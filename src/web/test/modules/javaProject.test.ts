@@ -0,0 +1,86 @@
+// Tests for Java source and build layout helpers
+
+import { strict as assert } from 'assert';
+import {
+    detectJUnitVersion,
+    getClassNameFromPath,
+    getJavaSourceLayout,
+    getQualifiedClassName,
+    hasJavaMainMethod,
+    isJavaTestMethod,
+    parseGradleRootProjectName,
+    parseJavaPackage,
+    parseMavenArtifactId,
+    stripJavaSignature
+} from '../../modules/javaProject';
+
+const TEST_SOURCE = `
+/* package com.example.wrong; */
+package com.example.orders;
+
+import org.junit.jupiter.api.Test;
+import org.junit.jupiter.params.ParameterizedTest;
+
+class OrderServiceTest {
+    @Test
+    void placesOrder() {}
+
+    @ParameterizedTest
+    @ValueSource(strings = {"a", "b"})
+    public void rejectsInvalid(String sku) {}
+
+    private Order helper() { return null; }
+
+    @Nested
+    class WhenEmpty {
+        @Test void hasNoTotal() {}
+    }
+}`;
+
+suite('javaProject', () => {
+    test('reads the package declaration, ignoring comments', () => {
+        assert.equal(parseJavaPackage(TEST_SOURCE), 'com.example.orders');
+        assert.equal(parseJavaPackage('class Main {}'), undefined);
+    });
+
+    test('builds binary class names from symbols', () => {
+        assert.equal(stripJavaSignature('rejectsInvalid(String)'), 'rejectsInvalid');
+        assert.equal(getQualifiedClassName('com.example.orders', ['OrderServiceTest', 'WhenEmpty']), 'com.example.orders.OrderServiceTest$WhenEmpty');
+        assert.equal(getQualifiedClassName(undefined, ['Main']), 'Main');
+    });
+
+    test('recognizes Maven and Gradle layouts with modules', () => {
+        assert.deepEqual(getJavaSourceLayout('orders/src/test/java/com/example/orders/OrderServiceTest.java'),
+            { moduleDirectory: 'orders', sourceSet: 'test', sourceRoot: 'orders/src/test/java' });
+        assert.deepEqual(getJavaSourceLayout('src/main/java/com/example/App.java'),
+            { moduleDirectory: '', sourceSet: 'main', sourceRoot: 'src/main/java' });
+        assert.equal(getClassNameFromPath('services/api/src/main/java/com/example/App.java'), 'com.example.App');
+        assert.equal(getClassNameFromPath('Hello.java'), 'Hello');
+    });
+
+    test('detects the JUnit generation and test methods', () => {
+        assert.equal(detectJUnitVersion(TEST_SOURCE), 5);
+        assert.equal(detectJUnitVersion('import org.junit.Test;\nimport static org.junit.Assert.*;'), 4);
+        assert.equal(detectJUnitVersion('import java.util.List;'), undefined);
+        assert.ok(isJavaTestMethod(TEST_SOURCE, 'placesOrder'));
+        assert.ok(isJavaTestMethod(TEST_SOURCE, 'rejectsInvalid'));
+        assert.ok(isJavaTestMethod(TEST_SOURCE, 'hasNoTotal'));
+        assert.ok(!isJavaTestMethod(TEST_SOURCE, 'helper'));
+    });
+
+    test('finds main methods', () => {
+        assert.ok(hasJavaMainMethod('public class App { public static void main(String[] args) {} }'));
+        assert.ok(hasJavaMainMethod('public class App { public static void main(final String... argv) {} }'));
+        assert.ok(!hasJavaMainMethod('public class App { // public static void main(String[] args)\n }'));
+    });
+
+    test('reads project names from pom.xml and settings.gradle', () => {
+        const pom = `<project>
+    <parent><artifactId>shop-parent</artifactId></parent>
+    <artifactId>orders</artifactId>
+    <dependencies><dependency><artifactId>junit-jupiter</artifactId></dependency></dependencies>
+</project>`;
+        assert.equal(parseMavenArtifactId(pom), 'orders');
+        assert.equal(parseGradleRootProjectName(`rootProject.name = "shop"\ninclude("orders")`), 'shop');
+    });
+});
@@ -0,0 +1,28 @@
+// Tests for JavaScript test runner detection and Vitest name patterns
+
+import { strict as assert } from 'assert';
+import { getDeclaredTestRunners, getVitestNamePattern, parseTestBlock } from '../../modules/javascriptProject';
+
+suite('javascriptProject', () => {
+    test('lists the test runners a package.json declares', () => {
+        assert.deepEqual(getDeclaredTestRunners('{"devDependencies": {"jest": "^29.0.0", "vitest": "^1.6.0"}}'), ['vitest', 'jest']);
+        assert.deepEqual(getDeclaredTestRunners('{"dependencies": {"mocha": "^10.0.0"}}'), ['mocha']);
+        assert.deepEqual(getDeclaredTestRunners('{"name": "app"}'), []);
+        assert.deepEqual(getDeclaredTestRunners('{ not json'), []);
+    });
+
+    test('parses test blocks from document symbol names', () => {
+        assert.deepEqual(parseTestBlock("describe('Cart') callback"), { kind: 'suite', name: 'Cart', parameterized: false });
+        assert.deepEqual(parseTestBlock('it.only("adds an item") callback'), { kind: 'test', name: 'adds an item', parameterized: false });
+        assert.deepEqual(parseTestBlock("test.each('adds %i items') callback"), { kind: 'test', name: 'adds %i items', parameterized: true });
+        assert.equal(parseTestBlock('createCart'), undefined);
+        assert.equal(parseTestBlock("expect('value') callback"), undefined);
+    });
+
+    test('builds full name patterns for tests and suites', () => {
+        assert.equal(getVitestNamePattern(["describe('Cart') callback", "it('adds (one) item') callback"]), '^Cart adds \\(one\\) item$');
+        assert.equal(getVitestNamePattern(["describe('Cart') callback", "describe('totals') callback"]), '^Cart totals ');
+        assert.equal(getVitestNamePattern(["describe('Cart') callback", "it.each('adds %i items') callback"]), '^Cart adds .* items$');
+        assert.equal(getVitestNamePattern(['helpers', 'createCart']), undefined);
+    });
+});
@@ -0,0 +1,99 @@
+// Tests for Cargo manifest parsing and Rust target resolution
+
+import { strict as assert } from 'assert';
+import {
+    getCargoTargetArgs,
+    isRustTestFunction,
+    isWorkspaceMember,
+    parseCargoManifest,
+    resolveCargoTarget
+} from '../../modules/rustProject';
+
+const MANIFEST = `
+[package]
+name = "my-tool" # the crate
+version = "0.1.0"
+
+[lib]
+path = "src/lib.rs"
+
+[[bin]]
+name = "tool-cli"
+path = "src/cli.rs"
+
+[[example]]
+name = "demo"
+
+[dependencies]
+name = "not-a-package"
+`;
+
+const WORKSPACE = `
+[workspace]
+members = [
+    "crates/*",
+    "tools/gen", # generator
+]
+exclude = ["crates/legacy"]
+`;
+
+suite('rustProject', () => {
+    test('parses package, lib and target tables', () => {
+        const manifest = parseCargoManifest(MANIFEST);
+        assert.equal(manifest.packageName, 'my-tool');
+        assert.equal(manifest.libPath, 'src/lib.rs');
+        assert.deepEqual(manifest.bins, [{ name: 'tool-cli', path: 'src/cli.rs' }]);
+        assert.deepEqual(manifest.examples, [{ name: 'demo' }]);
+        assert.equal(manifest.workspaceMembers, undefined);
+    });
+
+    test('matches workspace members across lines, globs and excludes', () => {
+        const manifest = parseCargoManifest(WORKSPACE);
+        assert.deepEqual(manifest.workspaceMembers, ['crates/*', 'tools/gen']);
+        assert.equal(manifest.packageName, undefined);
+        assert.ok(isWorkspaceMember(manifest, 'crates/core'));
+        assert.ok(isWorkspaceMember(manifest, 'tools/gen'));
+        assert.ok(!isWorkspaceMember(manifest, 'crates/legacy'));
+        assert.ok(!isWorkspaceMember(manifest, 'crates/core/nested'));
+    });
+
+    test('resolves targets from declared paths and cargo conventions', () => {
+        const manifest = parseCargoManifest(MANIFEST);
+        assert.deepEqual(resolveCargoTarget(manifest, 'src/cli.rs', true), { kind: 'bin', name: 'tool-cli', modulePath: [] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'src/main.rs', true), { kind: 'bin', name: 'my-tool', modulePath: [] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'src/lib.rs', true), { kind: 'lib', name: 'my_tool', modulePath: [] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'src/parser/mod.rs', true), { kind: 'lib', name: 'my_tool', modulePath: ['parser'] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'src/parser/lexer.rs', true), { kind: 'lib', name: 'my_tool', modulePath: ['parser', 'lexer'] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'src/util.rs', false), { kind: 'bin', name: 'my-tool', modulePath: ['util'] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'src/bin/server/main.rs', true), { kind: 'bin', name: 'server', modulePath: [] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'src/bin/server/routes.rs', true), { kind: 'bin', name: 'server', modulePath: ['routes'] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'tests/api.rs', true), { kind: 'test', name: 'api', modulePath: [] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'examples/demo.rs', true), { kind: 'example', name: 'demo', modulePath: [] });
+        assert.deepEqual(resolveCargoTarget(manifest, 'benches/throughput.rs', true), { kind: 'bench', name: 'throughput', modulePath: [] });
+        assert.equal(resolveCargoTarget(manifest, 'build.rs', true), undefined);
+    });
+
+    test('selects targets with cargo flags', () => {
+        assert.deepEqual(getCargoTargetArgs({ kind: 'lib', name: 'my_tool', modulePath: [] }), ['--lib']);
+        assert.deepEqual(getCargoTargetArgs({ kind: 'test', name: 'api', modulePath: [] }), ['--test=api']);
+    });
+
+    test('recognizes test functions by their attribute', () => {
+        const source = `
+fn helper() {}
+
+#[cfg(test)]
+mod tests {
+    #[test]
+    fn adds() {}
+
+    #[tokio::test]
+    #[ignore]
+    async fn fetches() {}
+}`;
+        assert.ok(isRustTestFunction(source, 'adds'));
+        assert.ok(isRustTestFunction(source, 'fetches'));
+        assert.ok(!isRustTestFunction(source, 'helper'));
+        assert.ok(!isRustTestFunction(source, 'add'));
+    });
+});
@@ -0,0 +1,18 @@
+// Tests for resolving plain compound member names across launch files
+
+import { strict as assert } from 'assert';
+import { findMemberOwners } from '../../util/compoundMembers';
+
+suite('compoundMembers', () => {
+    const namesByFile = { frontend: ['Client', 'Server'], backend: ['Server', 'Worker'], workspace: ['Server'] };
+
+    test('prefers the compound\'s own launch file', () => {
+        assert.deepEqual(findMemberOwners('Server', namesByFile, 'frontend'), ['frontend']);
+    });
+
+    test('falls back to the other launch files declaring the name', () => {
+        assert.deepEqual(findMemberOwners('Worker', namesByFile, 'frontend'), ['backend']);
+        assert.deepEqual(findMemberOwners('Server', namesByFile, 'other'), ['frontend', 'backend', 'workspace']);
+        assert.deepEqual(findMemberOwners('Ghost', namesByFile, 'frontend'), []);
+    });
+});
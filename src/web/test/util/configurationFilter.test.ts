@@ -0,0 +1,48 @@
+import { strict as assert } from 'assert';
+import { matchesFilter } from '../../util/configurationFilter';
+import { LaunchCompound, LaunchConfiguration } from '../../core/types';
+
+const API: LaunchConfiguration = {
+    name: 'API Server',
+    type: 'node',
+    request: 'launch',
+    program: '${workspaceFolder}/services/api/index.js',
+    env: { PORT: '8080', DATABASE_URL: 'postgres://localhost/dev' }
+};
+
+const STACK: LaunchCompound = {
+    name: 'Full Stack',
+    configurations: ['API Server', { name: 'Web', folder: 'frontend' }]
+};
+
+suite('configurationFilter', () => {
+    test('empty filter matches everything', () => {
+        assert.equal(matchesFilter(API, ''), true);
+        assert.equal(matchesFilter(API, '   '), true);
+    });
+
+    test('matches name, type, request and program case-insensitively', () => {
+        assert.equal(matchesFilter(API, 'api server'), true);
+        assert.equal(matchesFilter(API, 'NODE'), true);
+        assert.equal(matchesFilter(API, 'launch'), true);
+        assert.equal(matchesFilter(API, 'services/api'), true);
+        assert.equal(matchesFilter(API, 'python'), false);
+    });
+
+    test('matches env variable names and values', () => {
+        assert.equal(matchesFilter(API, 'database_url'), true);
+        assert.equal(matchesFilter(API, 'PORT=8080'), true);
+        assert.equal(matchesFilter(API, 'postgres'), true);
+    });
+
+    test('requires every term to match', () => {
+        assert.equal(matchesFilter(API, 'node 8080'), true);
+        assert.equal(matchesFilter(API, 'node attach'), false);
+    });
+
+    test('matches compounds by their own and member names', () => {
+        assert.equal(matchesFilter(STACK, 'full'), true);
+        assert.equal(matchesFilter(STACK, 'web'), true);
+        assert.equal(matchesFilter(STACK, 'node'), false);
+    });
+});
@@ -0,0 +1,50 @@
+import { strict as assert } from 'assert';
+import { COMPOUNDS_GROUP, getGroupLabel, groupConfigurations, ROOT_DIRECTORY_GROUP, UNGROUPED_GROUP } from '../../util/configurationGrouping';
+import { LaunchCompound, LaunchConfiguration } from '../../core/types';
+
+const API: LaunchConfiguration = { name: 'API', type: 'node', request: 'launch', program: '${workspaceFolder}/services/api/index.js', tinglyGroup: 'Backend' };
+const WORKER: LaunchConfiguration = { name: 'Worker', type: 'python', request: 'launch', program: 'services/worker/main.py', tinglyGroup: 'Backend' };
+const ATTACH: LaunchConfiguration = { name: 'Attach', type: 'node', request: 'attach', port: 9229 };
+const SCRIPT: LaunchConfiguration = { name: 'Script', type: 'python', request: 'launch', program: '${workspaceFolder}/script.py' };
+const STACK: LaunchCompound = { name: 'Stack', configurations: ['API', 'Worker'] };
+
+suite('configurationGrouping', () => {
+    suite('getGroupLabel', () => {
+        test('groups by debug type and request', () => {
+            assert.equal(getGroupLabel(API, 'type'), 'node');
+            assert.equal(getGroupLabel(ATTACH, 'request'), 'attach');
+        });
+
+        test('groups by program directory relative to the workspace folder', () => {
+            assert.equal(getGroupLabel(API, 'programDirectory'), 'services/api');
+            assert.equal(getGroupLabel(WORKER, 'programDirectory'), 'services/worker');
+            assert.equal(getGroupLabel(SCRIPT, 'programDirectory'), ROOT_DIRECTORY_GROUP);
+            assert.equal(getGroupLabel(ATTACH, 'programDirectory'), UNGROUPED_GROUP);
+        });
+
+        test('groups by tinglyGroup tag, including compounds', () => {
+            assert.equal(getGroupLabel(API, 'tag'), 'Backend');
+            assert.equal(getGroupLabel(ATTACH, 'tag'), UNGROUPED_GROUP);
+            assert.equal(getGroupLabel({ ...STACK, tinglyGroup: 'Backend' }, 'tag'), 'Backend');
+        });
+
+        test('puts compounds in their own group for property groupings', () => {
+            assert.equal(getGroupLabel(STACK, 'type'), COMPOUNDS_GROUP);
+        });
+    });
+
+    suite('groupConfigurations', () => {
+        test('sorts groups and keeps launch.json order inside them', () => {
+            const items = [API, ATTACH, STACK, WORKER, SCRIPT].map(config => ({ config }));
+            const groups = groupConfigurations(items, 'type');
+            assert.deepEqual(groups.map(group => group.label), ['node', 'python', COMPOUNDS_GROUP]);
+            assert.deepEqual(groups[0].items.map(item => item.config.name), ['API', 'Attach']);
+            assert.deepEqual(groups[1].items.map(item => item.config.name), ['Worker', 'Script']);
+        });
+
+        test('places ungrouped items last', () => {
+            const groups = groupConfigurations([ATTACH, API, STACK].map(config => ({ config })), 'tag');
+            assert.deepEqual(groups.map(group => group.label), ['Backend', UNGROUPED_GROUP]);
+        });
+    });
+});
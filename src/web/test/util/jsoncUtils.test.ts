@@ -1,13 +1,27 @@
 // Tests for JSONC utility functions
 
 import { strict as assert } from 'assert';
+import { applyEdits } from 'jsonc-parser';
 import {
     parseJSONC,
     parseJSONCConfigurations,
     serializeJSONC,
     updateLaunchConfiguration,
     addLaunchConfiguration,
-    removeLaunchConfiguration
+    removeLaunchConfiguration,
+    updateLaunchCompound,
+    addLaunchCompound,
+    moveLaunchConfiguration,
+    insertLaunchConfiguration,
+    insertLaunchCompound,
+    removeLaunchCompound,
+    moveLaunchCompound,
+    addLaunchInput,
+    updateLaunchInput,
+    removeLaunchInput,
+    parseLaunchTolerant,
+    getRenamePropertyEdits,
+    getLaunchSection
 } from '../../util/jsoncUtils';
 
 // ---------------------------------------------------------------------------
@@ -38,6 +52,37 @@ const LAUNCH_WITH_COMMENTS = `{
     ]
 }`;
 
+// Compounds sit next to configurations; comments must survive compound edits too
+const LAUNCH_WITH_COMPOUND = `{
+    "version": "0.2.0",
+    "configurations": [
+        { "name": "Server", "type": "node", "request": "launch" },
+        { "name": "Client", "type": "chrome", "request": "launch" }
+    ],
+    "compounds": [
+        // Full stack
+        {
+            "name": "Full Stack",
+            "configurations": ["Server", "Client"]
+        }
+    ]
+}`;
+
+// A .code-workspace file keeps its launch configurations under the "launch" key
+const WORKSPACE_FILE = `{
+    // Workspace folders
+    "folders": [
+        { "path": "frontend" },
+        { "path": "backend" }
+    ],
+    "launch": {
+        "version": "0.2.0",
+        "configurations": [
+            { "name": "All", "type": "node", "request": "launch" }
+        ]
+    }
+}`;
+
 // ---------------------------------------------------------------------------
 // parseJSONC
 // ---------------------------------------------------------------------------
@@ -192,6 +237,76 @@ suite('updateLaunchConfiguration', () => {
     });
 });
 
+// ---------------------------------------------------------------------------
+// addLaunchCompound
+// ---------------------------------------------------------------------------
+
+suite('addLaunchCompound', () => {
+    test('appends to an existing compounds array', () => {
+        const result = addLaunchCompound(LAUNCH_WITH_COMPOUND, { name: 'Server Only', configurations: ['Server'] });
+        const parsed = parseJSONC(result);
+        assert.strictEqual(parsed.compounds.length, 2);
+        assert.strictEqual(parsed.compounds[1].name, 'Server Only');
+        assert.ok(result.includes('// Full stack'), 'compound comment must be preserved');
+    });
+
+    test('adds compounds key when absent', () => {
+        const result = addLaunchCompound(LAUNCH_WITH_TWO_CONFIGS, { name: 'Both', configurations: ['App', 'Tests'] });
+        const parsed = parseJSONC(result);
+        assert.deepStrictEqual(parsed.compounds, [{ name: 'Both', configurations: ['App', 'Tests'] }]);
+        assert.strictEqual(parsed.configurations.length, 2);
+    });
+
+    test('adds under the workspace file launch key', () => {
+        const member = { name: 'Server', folder: 'backend' };
+        const result = addLaunchCompound(WORKSPACE_FILE, { name: 'Stack', configurations: ['All', member] }, ['launch']);
+        const parsed = parseJSONC(result);
+        assert.deepStrictEqual(parsed.launch.compounds[0].configurations, ['All', member]);
+        assert.strictEqual(parsed.folders.length, 2);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// updateLaunchCompound
+// ---------------------------------------------------------------------------
+
+suite('updateLaunchCompound', () => {
+    test('updates members, stopAll and preLaunchTask', () => {
+        const updated = {
+            name: 'Full Stack',
+            configurations: ['Client', { name: 'Server', folder: 'backend' }],
+            stopAll: true,
+            preLaunchTask: 'build'
+        };
+        const result = updateLaunchCompound(LAUNCH_WITH_COMPOUND, 'Full Stack', updated);
+        const parsed = parseJSONC(result);
+        assert.deepStrictEqual(parsed.compounds[0], updated);
+        // Configurations untouched
+        assert.strictEqual(parsed.configurations.length, 2);
+    });
+
+    test('preserves comments when updating', () => {
+        const updated = { name: 'Renamed', configurations: ['Server'] };
+        const result = updateLaunchCompound(LAUNCH_WITH_COMPOUND, 'Full Stack', updated);
+        assert.ok(result.includes('// Full stack'), 'compound comment must be preserved');
+        assert.strictEqual(parseJSONC(result).compounds[0].name, 'Renamed');
+    });
+
+    test('throws when compound name not found', () => {
+        assert.throws(
+            () => updateLaunchCompound(LAUNCH_WITH_COMPOUND, 'Missing', { name: 'Missing', configurations: [] }),
+            /Compound "Missing" not found/
+        );
+    });
+
+    test('throws when no compounds key', () => {
+        assert.throws(
+            () => updateLaunchCompound(LAUNCH_WITH_TWO_CONFIGS, 'Full Stack', {}),
+            /No compounds found/
+        );
+    });
+});
+
 // ---------------------------------------------------------------------------
 // removeLaunchConfiguration
 // ---------------------------------------------------------------------------
@@ -246,3 +361,340 @@ suite('removeLaunchConfiguration', () => {
         assert.strictEqual(parsed.configurations[1].name, 'C');
     });
 });
+
+// ---------------------------------------------------------------------------
+// moveLaunchConfiguration
+// ---------------------------------------------------------------------------
+
+// Three configs with comments inside and between them
+const LAUNCH_WITH_THREE_COMMENTED = `{
+    "version": "0.2.0",
+    "configurations": [
+        {
+            "name": "A",
+            // inside A
+            "type": "node",
+            "request": "launch"
+        },
+        // between A and B
+        {
+            "name": "B",
+            "type": "node",
+            "request": "launch"
+        },
+        {
+            "name": "C",
+            "type": "node",
+            "request": "launch" // inside C
+        }
+    ]
+}`;
+
+function names(text: string, launchPath: string[] = []): string[] {
+    return parseJSONCConfigurations(text, launchPath).map((config: any) => config.name);
+}
+
+suite('moveLaunchConfiguration', () => {
+    test('moves a config down', () => {
+        assert.deepStrictEqual(names(moveLaunchConfiguration(LAUNCH_WITH_THREE_COMMENTED, 'A', 2)), ['B', 'C', 'A']);
+    });
+
+    test('moves a config up', () => {
+        assert.deepStrictEqual(names(moveLaunchConfiguration(LAUNCH_WITH_THREE_COMMENTED, 'C', 0)), ['C', 'A', 'B']);
+    });
+
+    test('keeps comments inside the moved config and elsewhere', () => {
+        const result = moveLaunchConfiguration(LAUNCH_WITH_THREE_COMMENTED, 'A', 2);
+        assert.ok(result.includes('// inside A'), 'comment inside the moved config must be preserved');
+        assert.ok(result.includes('// between A and B'), 'comment between configs must be preserved');
+        assert.ok(result.includes('// inside C'), 'comment in another config must be preserved');
+        assert.ok(result.indexOf('// inside A') > result.indexOf('"name": "C"'), 'comment must move with its config');
+    });
+
+    test('returns the text unchanged when the index does not change', () => {
+        assert.strictEqual(moveLaunchConfiguration(LAUNCH_WITH_THREE_COMMENTED, 'B', 1), LAUNCH_WITH_THREE_COMMENTED);
+    });
+
+    test('clamps the target index', () => {
+        assert.deepStrictEqual(names(moveLaunchConfiguration(LAUNCH_WITH_TWO_CONFIGS, 'App', 99)), ['Tests', 'App']);
+    });
+
+    test('moves a config under the launch key of a workspace file', () => {
+        const text = addLaunchConfiguration(WORKSPACE_FILE, { name: 'Extra', type: 'node', request: 'launch' }, ['launch']);
+        const result = moveLaunchConfiguration(text, 'Extra', 0, ['launch']);
+        assert.deepStrictEqual(names(result, ['launch']), ['Extra', 'All']);
+        assert.ok(result.includes('// Workspace folders'), 'comment must be preserved');
+    });
+
+    test('throws when config name not found', () => {
+        assert.throws(
+            () => moveLaunchConfiguration(LAUNCH_WITH_TWO_CONFIGS, 'Ghost', 0),
+            /Configuration "Ghost" not found/
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// insertLaunchConfiguration / insertLaunchCompound
+// ---------------------------------------------------------------------------
+
+suite('insertLaunchConfiguration', () => {
+    test('inserts a config at an index', () => {
+        const result = insertLaunchConfiguration(LAUNCH_WITH_TWO_CONFIGS, { name: 'Middle', type: 'node', request: 'launch' }, 1);
+        assert.deepStrictEqual(names(result), ['App', 'Middle', 'Tests']);
+    });
+
+    test('appends when the index is past the end', () => {
+        const result = insertLaunchConfiguration(LAUNCH_WITH_TWO_CONFIGS, { name: 'Last', type: 'node', request: 'launch' }, 99);
+        assert.deepStrictEqual(names(result), ['App', 'Tests', 'Last']);
+    });
+
+    test('preserves comments when inserting', () => {
+        const result = insertLaunchConfiguration(LAUNCH_WITH_COMMENTS, { name: 'First', type: 'node', request: 'launch' }, 0);
+        assert.ok(result.includes('// Top-level comment'), 'top-level comment must be preserved');
+        assert.ok(result.includes('// First config'), 'config comment must be preserved');
+        assert.deepStrictEqual(names(result), ['First', 'App']);
+    });
+});
+
+suite('insertLaunchCompound', () => {
+    test('inserts a compound at an index', () => {
+        const result = insertLaunchCompound(LAUNCH_WITH_COMPOUND, { name: 'Server Only', configurations: ['Server'] }, 0);
+        const parsed = parseJSONC(result);
+        assert.deepStrictEqual(parsed.compounds.map((compound: any) => compound.name), ['Server Only', 'Full Stack']);
+        assert.ok(result.includes('// Full stack'), 'compound comment must be preserved');
+    });
+
+    test('creates the compounds array when absent', () => {
+        const result = insertLaunchCompound(LAUNCH_WITH_TWO_CONFIGS, { name: 'Both', configurations: ['App', 'Tests'] }, 0);
+        const parsed = parseJSONC(result);
+        assert.strictEqual(parsed.compounds.length, 1);
+        assert.strictEqual(parsed.configurations.length, 2);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// removeLaunchCompound / moveLaunchCompound
+// ---------------------------------------------------------------------------
+
+suite('removeLaunchCompound', () => {
+    test('removes a compound by name and keeps configurations', () => {
+        const result = removeLaunchCompound(LAUNCH_WITH_COMPOUND, 'Full Stack');
+        const parsed = parseJSONC(result);
+        assert.strictEqual(parsed.compounds.length, 0);
+        assert.strictEqual(parsed.configurations.length, 2);
+    });
+
+    test('throws when compound name not found', () => {
+        assert.throws(
+            () => removeLaunchCompound(LAUNCH_WITH_COMPOUND, 'Ghost'),
+            /Compound "Ghost" not found/
+        );
+    });
+
+    test('throws when no compounds key', () => {
+        assert.throws(
+            () => removeLaunchCompound(LAUNCH_WITH_TWO_CONFIGS, 'Full Stack'),
+            /No compounds found/
+        );
+    });
+});
+
+suite('moveLaunchCompound', () => {
+    test('moves a compound and keeps its comments', () => {
+        const withTwo = addLaunchCompound(LAUNCH_WITH_COMPOUND, { name: 'Server Only', configurations: ['Server'] });
+        const result = moveLaunchCompound(withTwo, 'Server Only', 0);
+        const parsed = parseJSONC(result);
+        assert.deepStrictEqual(parsed.compounds.map((compound: any) => compound.name), ['Server Only', 'Full Stack']);
+        assert.ok(result.includes('// Full stack'), 'compound comment must be preserved');
+    });
+
+    test('throws when compound name not found', () => {
+        assert.throws(
+            () => moveLaunchCompound(LAUNCH_WITH_COMPOUND, 'Ghost', 0),
+            /Compound "Ghost" not found/
+        );
+    });
+});
+
+// ---------------------------------------------------------------------------
+// addLaunchInput / updateLaunchInput / removeLaunchInput
+// ---------------------------------------------------------------------------
+
+suite('launch inputs', () => {
+    const PICK = { id: 'target', type: 'pickString', options: ['dev', 'prod'] };
+
+    test('creates the inputs array when absent and keeps comments', () => {
+        const result = addLaunchInput(LAUNCH_WITH_COMMENTS, PICK);
+        const parsed = parseJSONC(result);
+        assert.deepStrictEqual(parsed.inputs, [PICK]);
+        assert.ok(result.includes('// First config'), 'config comment must be preserved');
+    });
+
+    test('updates an input by id, including its id', () => {
+        const withInput = addLaunchInput(MINIMAL_LAUNCH, PICK);
+        const result = updateLaunchInput(withInput, 'target', { id: 'env', type: 'promptString', default: 'dev' });
+        assert.deepStrictEqual(parseJSONC(result).inputs, [{ id: 'env', type: 'promptString', default: 'dev' }]);
+    });
+
+    test('removes an input by id', () => {
+        const withInputs = addLaunchInput(addLaunchInput(MINIMAL_LAUNCH, PICK), { id: 'port', type: 'promptString' });
+        const result = removeLaunchInput(withInputs, 'target');
+        assert.deepStrictEqual(parseJSONC(result).inputs.map((input: any) => input.id), ['port']);
+    });
+
+    test('throws when input id not found', () => {
+        assert.throws(
+            () => removeLaunchInput(addLaunchInput(MINIMAL_LAUNCH, PICK), 'ghost'),
+            /Input "ghost" not found/
+        );
+        assert.throws(
+            () => updateLaunchInput(MINIMAL_LAUNCH, 'target', PICK),
+            /No inputs found/
+        );
+    });
+
+    test('adds under the workspace file launch key', () => {
+        const result = addLaunchInput(WORKSPACE_FILE, PICK, ['launch']);
+        const parsed = parseJSONC(result);
+        assert.deepStrictEqual(parsed.launch.inputs, [PICK]);
+        assert.strictEqual(parsed.folders.length, 2);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// parseLaunchTolerant
+// ---------------------------------------------------------------------------
+
+suite('parseLaunchTolerant', () => {
+    test('returns everything and no errors for valid text', () => {
+        const result = parseLaunchTolerant(LAUNCH_WITH_COMPOUND);
+        assert.deepStrictEqual(result.errors, []);
+        assert.deepStrictEqual(result.launch, parseJSONC(LAUNCH_WITH_COMPOUND));
+    });
+
+    test('keeps every configuration around a trailing comma and reports its position', () => {
+        const text = `{
+    "version": "0.2.0",
+    "configurations": [
+        { "name": "App", "type": "node", "request": "launch" },
+        { "name": "Tests", "type": "node", "request": "launch" },
+    ]
+}`;
+        const result = parseLaunchTolerant(text);
+        assert.deepStrictEqual(result.launch.configurations.map((config: any) => config.name), ['App', 'Tests']);
+        assert.strictEqual(result.errors.length, 1);
+        assert.strictEqual(result.errors[0].message, 'ValueExpected');
+        assert.strictEqual(result.errors[0].line, 6);
+        assert.strictEqual(result.errors[0].column, 5);
+    });
+
+    test('drops only the configuration that contains an error', () => {
+        const text = `{
+    "configurations": [
+        { "name": "Broken", "type": "node" "request": "launch" },
+        { "name": "Fine", "type": "node", "request": "launch" }
+    ],
+    "compounds": [{ "name": "Both", "configurations": ["Broken", "Fine"] }]
+}`;
+        const result = parseLaunchTolerant(text);
+        assert.deepStrictEqual(result.launch.configurations.map((config: any) => config.name), ['Fine']);
+        assert.deepStrictEqual(result.launch.compounds.map((compound: any) => compound.name), ['Both']);
+        assert.strictEqual(result.errors[0].message, 'CommaExpected');
+        assert.strictEqual(result.errors[0].line, 3);
+    });
+
+    test('recovers the launch section of a workspace file', () => {
+        const text = WORKSPACE_FILE.replace('"folders": [', '"folders": [,');
+        const result = parseLaunchTolerant(text, ['launch']);
+        assert.deepStrictEqual(result.launch.configurations.map((config: any) => config.name), ['All']);
+        assert.ok(result.errors.length > 0);
+    });
+
+    test('returns an empty section when nothing can be read', () => {
+        const result = parseLaunchTolerant('not json');
+        assert.deepStrictEqual(result.launch, {});
+        assert.ok(result.errors.length > 0);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// getRenamePropertyEdits
+// ---------------------------------------------------------------------------
+
+suite('getRenamePropertyEdits', () => {
+    const text = `{
+    "configurations": [
+        {
+            "name": "Py",
+            "type": "debugpy",
+            // Interpreter of the project venv
+            "pythonPath": "\${workspaceFolder}/.venv/bin/python"
+        }
+    ]
+}`;
+
+    test('renames the key and keeps the value and comments', () => {
+        const result = applyEdits(text, getRenamePropertyEdits(text, ['configurations', 0, 'pythonPath'], 'python'));
+        assert.ok(result.includes('// Interpreter of the project venv'));
+        assert.ok(result.includes('"python": "${workspaceFolder}/.venv/bin/python"'));
+        assert.ok(!result.includes('pythonPath'));
+    });
+
+    test('removes the old property when the new key is already set', () => {
+        const both = text.replace('"type": "debugpy",', '"type": "debugpy",\n            "python": "python3",');
+        const result = parseJSONC(applyEdits(both, getRenamePropertyEdits(both, ['configurations', 0, 'pythonPath'], 'python')));
+        assert.deepStrictEqual(result.configurations[0], { name: 'Py', type: 'debugpy', python: 'python3' });
+    });
+
+    test('throws when the property does not exist', () => {
+        assert.throws(() => getRenamePropertyEdits(text, ['configurations', 0, 'program'], 'python'), /No property/);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Workspace file launch section
+// ---------------------------------------------------------------------------
+
+suite('workspace file launch section', () => {
+    test('getLaunchSection returns nested launch object', () => {
+        const section = getLaunchSection(parseJSONC(WORKSPACE_FILE), ['launch']);
+        assert.strictEqual(section.configurations.length, 1);
+        assert.strictEqual(section.configurations[0].name, 'All');
+    });
+
+    test('getLaunchSection returns empty object when section is absent', () => {
+        const section = getLaunchSection({ folders: [] }, ['launch']);
+        assert.deepStrictEqual(section, {});
+    });
+
+    test('parseJSONCConfigurations reads from launch path', () => {
+        const configs = parseJSONCConfigurations(WORKSPACE_FILE, ['launch']);
+        assert.strictEqual(configs.length, 1);
+        assert.strictEqual(configs[0].name, 'All');
+    });
+
+    test('adds a config under the launch key and keeps folders', () => {
+        const result = addLaunchConfiguration(WORKSPACE_FILE, { name: 'Extra', type: 'node', request: 'launch' }, ['launch']);
+        const parsed = parseJSONC(result);
+        assert.strictEqual(parsed.launch.configurations.length, 2);
+        assert.strictEqual(parsed.launch.configurations[1].name, 'Extra');
+        assert.strictEqual(parsed.folders.length, 2);
+        assert.ok(result.includes('// Workspace folders'), 'comment must be preserved');
+    });
+
+    test('creates the launch section when absent', () => {
+        const text = JSON.stringify({ folders: [{ path: 'a' }] }, null, 4);
+        const result = addLaunchConfiguration(text, { name: 'New', type: 'node', request: 'launch' }, ['launch']);
+        const parsed = parseJSONC(result);
+        assert.strictEqual(parsed.launch.configurations[0].name, 'New');
+    });
+
+    test('updates and removes a config under the launch key', () => {
+        const updated = updateLaunchConfiguration(WORKSPACE_FILE, 'All', { name: 'All', type: 'node', request: 'attach' }, ['launch']);
+        assert.strictEqual(parseJSONC(updated).launch.configurations[0].request, 'attach');
+
+        const removed = removeLaunchConfiguration(updated, 'All', ['launch']);
+        assert.strictEqual(parseJSONC(removed).launch.configurations.length, 0);
+    });
+});
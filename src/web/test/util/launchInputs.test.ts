@@ -0,0 +1,40 @@
+import { strict as assert } from 'assert';
+import { findInputReferences, findUndeclaredInputs, validateLaunchInput } from '../../util/launchInputs';
+import { LaunchConfiguration, LaunchInput } from '../../core/types';
+
+const CONFIG: LaunchConfiguration = {
+    name: 'Deploy',
+    type: 'node',
+    request: 'launch',
+    program: '${workspaceFolder}/deploy.js',
+    args: ['--target', '${input:target}', '--port=${input:port}'],
+    env: { TOKEN: '${input:token}', TARGET: '${input:target}' }
+};
+
+suite('launchInputs', () => {
+    test('finds input references in nested strings, once each', () => {
+        assert.deepEqual(findInputReferences(CONFIG), ['target', 'port', 'token']);
+    });
+
+    test('ignores other variables', () => {
+        assert.deepEqual(findInputReferences({ cwd: '${workspaceFolder}', env: { A: '${env:HOME}' } }), []);
+    });
+
+    test('reports only undeclared inputs', () => {
+        const inputs: LaunchInput[] = [
+            { id: 'target', type: 'pickString', options: ['dev', 'prod'] },
+            { id: 'token', type: 'promptString', password: true }
+        ];
+        assert.deepEqual(findUndeclaredInputs(CONFIG, inputs), ['port']);
+        assert.deepEqual(findUndeclaredInputs(CONFIG, undefined), ['target', 'port', 'token']);
+    });
+
+    test('validates input declarations', () => {
+        assert.equal(validateLaunchInput({ id: 'port', type: 'promptString' }), undefined);
+        assert.match(validateLaunchInput({ id: '', type: 'promptString' }) || '', /id is required/);
+        assert.match(validateLaunchInput({ id: 'my id', type: 'promptString' }) || '', /whitespace/);
+        assert.match(validateLaunchInput({ id: 'x', type: 'prompt' as any }) || '', /unknown type/);
+        assert.match(validateLaunchInput({ id: 'x', type: 'pickString', options: [] }) || '', /at least one option/);
+        assert.match(validateLaunchInput({ id: 'x', type: 'command' }) || '', /needs a command/);
+    });
+});
@@ -0,0 +1,107 @@
+import { strict as assert } from 'assert';
+import { findProgramReferences, validateLaunchText } from '../../util/launchValidator';
+
+const LAUNCH = `{
+    "version": "0.2.0",
+    "configurations": [
+        { "name": "App", "type": "node", "request": "launch", "program": "\${workspaceFolder}/app.js" },
+        { "name": "App", "type": "node", "request": "attach", "port": 9229 },
+        { "name": "No Type", "request": "launch" },
+        { "name": "Odd", "type": "go", "request": "debug", "args": ["\${input:target}", "\${input:declared}"] }
+    ],
+    "compounds": [
+        { "name": "Stack", "configurations": ["App", "Ghost", { "name": "Web", "folder": "frontend" }] },
+        { "name": "Empty", "configurations": [] }
+    ],
+    "inputs": [
+        { "id": "declared", "type": "promptString" }
+    ]
+}`;
+
+suite('launchValidator', () => {
+    const problems = validateLaunchText(LAUNCH, [], { folderConfigurations: { frontend: ['Client'] } });
+    const textOf = (problem: { offset: number; length: number }) => LAUNCH.substr(problem.offset, problem.length);
+
+    test('reports missing required properties on the configuration', () => {
+        const missing = problems.find(problem => problem.message.includes('missing "type"'));
+        assert.ok(missing);
+        assert.equal(missing.severity, 'error');
+        assert.deepEqual(missing.target, { kind: 'configuration', index: 2, name: 'No Type' });
+        assert.ok(textOf(missing).startsWith('{ "name": "No Type"'));
+    });
+
+    test('reports duplicate names on each name value', () => {
+        const duplicates = problems.filter(problem => problem.message.startsWith('Duplicate configuration name'));
+        assert.deepEqual(duplicates.map(problem => problem.target?.index), [0, 1]);
+        assert.deepEqual(duplicates.map(textOf), ['"App"', '"App"']);
+    });
+
+    test('reports unknown requests and undeclared inputs', () => {
+        const request = problems.find(problem => problem.message.startsWith('Unknown request'));
+        assert.equal(request && textOf(request), '"debug"');
+        const inputs = problems.filter(problem => problem.message.includes('is not declared'));
+        assert.deepEqual(inputs.map(textOf), ['"${input:target}"']);
+    });
+
+    test('reports compound members that do not resolve', () => {
+        const members = problems.filter(problem => problem.target?.kind === 'compound' && problem.message.startsWith('Unknown configuration'));
+        assert.deepEqual(members.map(textOf), ['"Ghost"', '{ "name": "Web", "folder": "frontend" }']);
+        assert.ok(problems.some(problem => problem.message === 'Compound has no configurations to launch' && problem.target?.name === 'Empty'));
+    });
+
+    test('resolves plain member names in other folders when only one declares them', () => {
+        const compound = `{ "configurations": [], "compounds": [{ "name": "All", "configurations": ["Client", "Server"] }] }`;
+        const folderConfigurations = { frontend: ['Client', 'Server'], backend: ['Server'] };
+        const members = validateLaunchText(compound, [], { folderConfigurations });
+        assert.deepEqual(members.map(problem => compound.substr(problem.offset, problem.length)), ['"Server"']);
+        assert.equal(members[0].code, undefined);
+        assert.match(members[0].message, /exists in folders "frontend", "backend"/);
+    });
+
+    test('accepts a plain member declared only in a second folder', () => {
+        const compound = `{ "configurations": [{ "name": "Client", "type": "node", "request": "launch" }],
+            "compounds": [{ "name": "All", "configurations": ["Client", "Server"] }] }`;
+        const folderConfigurations = { frontend: ['Client'], backend: ['Server'] };
+        assert.deepEqual(validateLaunchText(compound, [], { folderConfigurations }), []);
+    });
+
+    test('gives fixable problems a code and the path of their node', () => {
+        const member = problems.find(problem => problem.code === 'unknownMember');
+        assert.deepEqual(member?.path, ['compounds', 0, 'configurations', 1]);
+        const duplicate = problems.find(problem => problem.code === 'duplicateName');
+        assert.deepEqual(duplicate?.path, ['configurations', 0, 'name']);
+    });
+
+    test('notes the deprecated Python type and pythonPath', () => {
+        const python = `{ "configurations": [{ "name": "Py", "type": "python", "request": "launch", "pythonPath": "python3" }] }`;
+        const notes = validateLaunchText(python);
+        assert.deepEqual(notes.map(problem => problem.code), ['deprecatedPythonType', 'deprecatedPythonPath']);
+        assert.ok(notes.every(problem => problem.severity === 'information'));
+        assert.deepEqual(notes[1].path, ['configurations', 0, 'pythonPath']);
+        assert.equal(python.substr(notes[1].offset, notes[1].length), '"pythonPath"');
+    });
+
+    test('accepts a valid launch file', () => {
+        const valid = `{ "configurations": [{ "name": "A", "type": "node", "request": "launch" }], "compounds": [{ "name": "C", "configurations": ["A"] }] }`;
+        assert.deepEqual(validateLaunchText(valid), []);
+    });
+
+    test('reads the launch section of a workspace file', () => {
+        const workspace = `{ "folders": [], "launch": { "configurations": [{ "name": "A", "request": "launch" }] } }`;
+        assert.equal(validateLaunchText(workspace, ['launch']).length, 1);
+        assert.equal(validateLaunchText(workspace).length, 0);
+    });
+
+    test('finds launch programs with their ranges', () => {
+        const references = findProgramReferences(LAUNCH);
+        assert.equal(references.length, 1);
+        assert.equal(references[0].program, '${workspaceFolder}/app.js');
+        assert.equal(textOf(references[0]), '"${workspaceFolder}/app.js"');
+        assert.equal(references[0].preLaunchTask, undefined);
+    });
+
+    test('records the preLaunchTask that may build a program', () => {
+        const built = `{ "configurations": [{ "name": "A", "type": "node", "request": "launch", "program": "out/main.js", "preLaunchTask": "npm: build" }] }`;
+        assert.equal(findProgramReferences(built)[0].preLaunchTask, 'npm: build');
+    });
+});
@@ -0,0 +1,12 @@
+// In-memory Memento for tests of persisted state
+
+import type { Memento } from 'vscode';
+
+export function createMemento(): Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => Array.from(values.keys()),
+        get: (key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue,
+        update: async (key: string, value: unknown) => { values.set(key, value); }
+    } as Memento;
+}
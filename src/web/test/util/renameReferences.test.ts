@@ -0,0 +1,112 @@
+// Tests for locating configuration rename edits
+
+import { strict as assert } from 'assert';
+import { parseJSONC } from '../../util/jsoncUtils';
+import { applyRenameEdits, findLaunchRenameEdits, findTaskReferenceEdits, findTaskRenameEdits } from '../../util/renameReferences';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const LAUNCH = `{
+    "version": "0.2.0",
+    "configurations": [
+        // The API
+        {
+            "name": "API",
+            "type": "node",
+            "request": "launch",
+            "preLaunchTask": "API"
+        },
+        {
+            "name": "Web",
+            "type": "chrome",
+            "request": "launch",
+            "serverReadyAction": { "action": "startDebugging", "config": "API" }
+        }
+    ],
+    "compounds": [
+        { "name": "Stack", "configurations": ["API", "Web", { "name": "API", "folder": "backend" }] }
+    ]
+}`;
+
+const WORKSPACE_FILE = `{
+    "folders": [{ "path": "backend" }, { "path": "frontend" }],
+    "launch": {
+        "configurations": [],
+        "compounds": [
+            { "name": "All", "configurations": [{ "name": "API", "folder": "backend" }, { "name": "API", "folder": "frontend" }] }
+        ]
+    }
+}`;
+
+const TASKS = `{
+    "version": "2.0.0",
+    "tasks": [
+        { "label": "API", "type": "npm", "script": "build" },
+        { "label": "all", "dependsOn": ["API", "lint"] },
+        { "label": "single", "dependsOn": "API" }
+    ]
+}`;
+
+// ---------------------------------------------------------------------------
+// findLaunchRenameEdits
+// ---------------------------------------------------------------------------
+
+suite('findLaunchRenameEdits', () => {
+    test('renames the definition, serverReadyAction and same-file compound members', () => {
+        const edits = findLaunchRenameEdits(LAUNCH, 'API', 'Backend API', { launchPath: [], ownsConfiguration: true });
+        assert.deepStrictEqual(edits.map(edit => edit.kind).sort(), ['compoundMember', 'definition', 'serverReadyAction']);
+
+        const result = applyRenameEdits(LAUNCH, edits);
+        const parsed = parseJSONC(result);
+        assert.strictEqual(parsed.configurations[0].name, 'Backend API');
+        assert.strictEqual(parsed.configurations[1].serverReadyAction.config, 'Backend API');
+        assert.deepStrictEqual(parsed.compounds[0].configurations.slice(0, 2), ['Backend API', 'Web']);
+        assert.ok(result.includes('// The API'), 'comments must be preserved');
+    });
+
+    test('leaves task references alone', () => {
+        const parsed = parseJSONC(applyRenameEdits(LAUNCH, findLaunchRenameEdits(LAUNCH, 'API', 'X', { launchPath: [], ownsConfiguration: true })));
+        assert.strictEqual(parsed.configurations[0].preLaunchTask, 'API');
+    });
+
+    test('renames folder-qualified members of the owning folder only', () => {
+        const edits = findLaunchRenameEdits(WORKSPACE_FILE, 'API', 'Server', { launchPath: ['launch'], ownsConfiguration: false, folderName: 'backend' });
+        const parsed = parseJSONC(applyRenameEdits(WORKSPACE_FILE, edits));
+        assert.deepStrictEqual(parsed.launch.compounds[0].configurations, [
+            { name: 'Server', folder: 'backend' },
+            { name: 'API', folder: 'frontend' }
+        ]);
+    });
+
+    test('does not touch same-named string members in other files', () => {
+        const edits = findLaunchRenameEdits(LAUNCH, 'API', 'Server', { launchPath: [], ownsConfiguration: false, folderName: 'backend' });
+        assert.strictEqual(edits.length, 1);
+        const parsed = parseJSONC(applyRenameEdits(LAUNCH, edits));
+        assert.deepStrictEqual(parsed.compounds[0].configurations, ['API', 'Web', { name: 'Server', folder: 'backend' }]);
+    });
+
+    test('returns nothing when the name is unused', () => {
+        assert.deepStrictEqual(findLaunchRenameEdits(LAUNCH, 'Ghost', 'X', { launchPath: [], ownsConfiguration: true }), []);
+    });
+});
+
+// ---------------------------------------------------------------------------
+// Task edits
+// ---------------------------------------------------------------------------
+
+suite('findTaskRenameEdits', () => {
+    test('renames labels and dependsOn entries of tasks named after the configuration', () => {
+        const parsed = parseJSONC(applyRenameEdits(TASKS, findTaskRenameEdits(TASKS, 'API', 'Server')));
+        assert.strictEqual(parsed.tasks[0].label, 'Server');
+        assert.deepStrictEqual(parsed.tasks[1].dependsOn, ['Server', 'lint']);
+        assert.strictEqual(parsed.tasks[2].dependsOn, 'Server');
+    });
+
+    test('renames preLaunchTask references in the launch file', () => {
+        const parsed = parseJSONC(applyRenameEdits(LAUNCH, findTaskReferenceEdits(LAUNCH, 'API', 'Server')));
+        assert.strictEqual(parsed.configurations[0].preLaunchTask, 'Server');
+        assert.strictEqual(parsed.configurations[0].name, 'API');
+    });
+});
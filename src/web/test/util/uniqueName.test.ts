@@ -0,0 +1,19 @@
+import { strict as assert } from 'assert';
+import { makeUniqueName } from '../../util/uniqueName';
+
+suite('uniqueName', () => {
+    const now = new Date(2025, 7, 11, 12, 9, 5);
+
+    test('adds the first free index', () => {
+        assert.equal(makeUniqueName('App', new Set(['App'])), 'App - 1');
+        assert.equal(makeUniqueName('App', new Set(['App', 'App - 1', 'App - 2'])), 'App - 3');
+    });
+
+    test('adds a timestamp when that style is chosen', () => {
+        assert.equal(makeUniqueName('App', new Set(['App']), 'timestamp', now), 'App-20250811-120905');
+    });
+
+    test('falls back to an index when the timestamp name is taken', () => {
+        assert.equal(makeUniqueName('App', new Set(['App', 'App-20250811-120905']), 'timestamp', now), 'App - 1');
+    });
+});
@@ -0,0 +1,13 @@
+// Resolution of compound members that name a configuration without its folder
+
+/**
+ * Launch files a plain-string compound member can refer to, by key: the compound's own file
+ * when it declares the name, otherwise every other file that does. VS Code launches the member
+ * only when this yields exactly one file; none means it is missing, several that it is ambiguous.
+ */
+export function findMemberOwners(name: string, namesByFile: Record<string, string[]>, ownFile?: string): string[] {
+    if (ownFile !== undefined && namesByFile[ownFile]?.includes(name)) {
+        return [ownFile];
+    }
+    return Object.keys(namesByFile).filter(file => file !== ownFile && namesByFile[file].includes(name));
+}
@@ -0,0 +1,40 @@
+// Text filter over launch configurations and compounds
+
+import { LaunchCompound, LaunchConfiguration } from '../core/types';
+
+/**
+ * Text a configuration can be found by: name, type, request, program and env
+ * variable names and values; compounds are found by their own and their members' names
+ */
+function getSearchableText(config: LaunchConfiguration | LaunchCompound): string[] {
+    if ('configurations' in config) {
+        const compound = config as LaunchCompound;
+        return [
+            compound.name,
+            ...(compound.configurations || []).map(member => typeof member === 'string' ? member : member.name)
+        ];
+    }
+
+    const env = config.env && typeof config.env === 'object' ? config.env as Record<string, unknown> : {};
+    return [
+        config.name,
+        config.type,
+        config.request,
+        typeof config.program === 'string' ? config.program : '',
+        ...Object.entries(env).map(([key, value]) => `${key}=${value}`)
+    ];
+}
+
+/**
+ * Whether a configuration matches a filter: every whitespace-separated term must occur,
+ * case-insensitively, in one of its searchable fields. An empty filter matches everything.
+ */
+export function matchesFilter(config: LaunchConfiguration | LaunchCompound, filter: string): boolean {
+    const terms = filter.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) {
+        return true;
+    }
+
+    const fields = getSearchableText(config).filter(Boolean).map(field => field.toLowerCase());
+    return terms.every(term => fields.some(field => field.includes(term)));
+}
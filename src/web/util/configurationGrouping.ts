@@ -0,0 +1,68 @@
+// Grouping of launch configurations into tree sections
+
+import { LaunchCompound, LaunchConfiguration } from '../core/types';
+
+export type GroupBy = 'none' | 'type' | 'request' | 'programDirectory' | 'tag';
+
+/** Group holding compounds when grouping by a configuration property */
+export const COMPOUNDS_GROUP = 'Compounds';
+/** Group holding configurations without a value for the grouping property */
+export const UNGROUPED_GROUP = 'Ungrouped';
+/** Program directory label for programs at the workspace folder root */
+export const ROOT_DIRECTORY_GROUP = '(workspace root)';
+
+/**
+ * Directory of a configuration's program relative to its workspace folder
+ */
+function getProgramDirectory(program: string): string {
+    const relative = program
+        .replace(/\\/g, '/')
+        .replace(/^\$\{(workspaceFolder|workspaceRoot)(:[^}]*)?\}\/?/, '')
+        .replace(/^\.\//, '');
+    const separator = relative.lastIndexOf('/');
+    return separator > 0 ? relative.slice(0, separator) : ROOT_DIRECTORY_GROUP;
+}
+
+/**
+ * Label of the group a configuration belongs to under a grouping mode
+ */
+export function getGroupLabel(config: LaunchConfiguration | LaunchCompound, groupBy: GroupBy): string {
+    const tag = typeof config.tinglyGroup === 'string' ? config.tinglyGroup.trim() : '';
+    if (groupBy === 'tag') {
+        return tag || UNGROUPED_GROUP;
+    }
+    if ('configurations' in config) {
+        return COMPOUNDS_GROUP;
+    }
+
+    switch (groupBy) {
+        case 'type':
+            return config.type || UNGROUPED_GROUP;
+        case 'request':
+            return config.request || UNGROUPED_GROUP;
+        case 'programDirectory':
+            return typeof config.program === 'string' && config.program ? getProgramDirectory(config.program) : UNGROUPED_GROUP;
+        default:
+            return UNGROUPED_GROUP;
+    }
+}
+
+/**
+ * Split items into groups sorted by label, with the compound and ungrouped sections
+ * last; items keep their launch.json order within a group
+ */
+export function groupConfigurations<T extends { config: LaunchConfiguration | LaunchCompound }>(
+    items: T[],
+    groupBy: GroupBy
+): { label: string; items: T[] }[] {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const label = getGroupLabel(item.config, groupBy);
+        groups.set(label, [...(groups.get(label) || []), item]);
+    }
+
+    const rank = (label: string) => label === COMPOUNDS_GROUP ? 1 : label === UNGROUPED_GROUP ? 2 : 0;
+    return Array.from(groups.entries())
+        .map(([label, groupItems]) => ({ label, items: groupItems }))
+        .sort((a, b) => rank(a.label) - rank(b.label) || a.label.localeCompare(b.label));
+}
@@ -4,13 +4,16 @@
  */
 
 import { createModuleLogger } from './logger';
-import { parse, modify, applyEdits } from 'jsonc-parser';
-import type { FormattingOptions } from 'jsonc-parser';
+import { parse, parseTree, findNodeAtLocation, createScanner, modify, applyEdits, printParseErrorCode } from 'jsonc-parser';
+import type { Edit, FormattingOptions, JSONPath, Node, ParseError } from 'jsonc-parser';
 
 const log = createModuleLogger('JSONC');
 
 const FORMATTING: FormattingOptions = { tabSize: 4, insertSpaces: true };
 
+/** Stand-in value inserted at a move target and then swapped for the moved element's text */
+const MOVE_PLACEHOLDER = '__tingly.debug.move__';
+
 /**
  * Parse JSONC text and return the data
  */
@@ -27,12 +30,91 @@ export function parseJSONC(text: string): any {
     }
 }
 
+/**
+ * Syntax error with its 1-based line and column
+ */
+export interface JSONCParseError {
+    message: string;
+    offset: number;
+    length: number;
+    line: number;
+    column: number;
+}
+
+/**
+ * Launch section recovered from text that may contain syntax errors
+ */
+export interface TolerantLaunchParse {
+    launch: any;
+    errors: JSONCParseError[];
+}
+
+/** Arrays whose well-formed elements are kept even when a sibling is broken */
+const RECOVERABLE_ARRAYS = ['configurations', 'compounds', 'inputs'];
+
+function toParseError(text: string, error: ParseError): JSONCParseError {
+    const before = text.slice(0, error.offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return {
+        message: printParseErrorCode(error.error),
+        offset: error.offset,
+        length: error.length,
+        line: before.split('\n').length,
+        column: error.offset - lineStart + 1
+    };
+}
+
+/**
+ * Parse the launch section at `launchPath` without giving up on syntax errors. Every
+ * configuration, compound and input that contains no error is recovered; broken ones
+ * are dropped rather than guessed at, and all errors are returned with their positions.
+ */
+export function parseLaunchTolerant(text: string, launchPath: JSONPath = []): TolerantLaunchParse {
+    const parseErrors: ParseError[] = [];
+    const root = parseTree(text, parseErrors);
+    const errors = parseErrors.map(error => toParseError(text, error));
+
+    const section = root && (launchPath.length > 0 ? findNodeAtLocation(root, launchPath) : root);
+    if (!section || section.type !== 'object') {
+        return { launch: {}, errors };
+    }
+
+    const isIntact = (node: Node) => !parseErrors.some(error => error.offset >= node.offset && error.offset < node.offset + node.length);
+    // Re-parse intact nodes from their own text so values are plain objects, like parseJSONC returns
+    const valueOf = (node: Node) => parse(text.slice(node.offset, node.offset + node.length));
+    const launch: any = {};
+    for (const property of section.children || []) {
+        const [key, value] = property.children || [];
+        if (!key || !value) {
+            continue;
+        }
+        if (RECOVERABLE_ARRAYS.includes(key.value) && value.type === 'array') {
+            launch[key.value] = (value.children || []).filter(isIntact).map(valueOf);
+        } else if (isIntact(value)) {
+            launch[key.value] = valueOf(value);
+        }
+    }
+    return { launch, errors };
+}
+
+/**
+ * Resolve the launch section inside parsed JSONC data.
+ * `launchPath` is empty for launch.json and `['launch']` for a .code-workspace file.
+ */
+export function getLaunchSection(data: any, launchPath: JSONPath): any {
+    let section = data;
+    for (const segment of launchPath) {
+        section = section?.[segment];
+    }
+    return section || {};
+}
+
 /**
  * Parse JSONC text and return only the configurations array
  */
-export function parseJSONCConfigurations(text: string): any[] {
+export function parseJSONCConfigurations(text: string, launchPath: JSONPath = []): any[] {
     try {
-        const data = parseJSONC(text);
+        const data = getLaunchSection(parseJSONC(text), launchPath);
         return data.configurations || [];
     } catch (error) {
         log.error('Failed to parse launch.json configurations:', error);
@@ -52,74 +134,425 @@ export function serializeJSONC(data: any): string {
  * Preserves all comments and existing formatting.
  */
 function applyModification(originalText: string, jsonPath: (string | number)[], value: any): string {
-    const edits = modify(originalText, jsonPath, value, { formattingOptions: FORMATTING });
+    return applyEdits(originalText, getModificationEdits(originalText, jsonPath, value));
+}
+
+/**
+ * Edits that set the value at a JSON path, or remove it when `value` is undefined,
+ * for callers that apply them to an open document rather than to text
+ */
+export function getModificationEdits(originalText: string, jsonPath: JSONPath, value: any): Edit[] {
+    return modify(originalText, jsonPath, value, { formattingOptions: FORMATTING });
+}
+
+/**
+ * Edits that rename the property at `propertyPath`, keeping its value and any comments.
+ * When the object already has `newKey`, that value wins and the old property is removed.
+ */
+export function getRenamePropertyEdits(originalText: string, propertyPath: JSONPath, newKey: string): Edit[] {
+    const root = parseTree(originalText);
+    const value = root && findNodeAtLocation(root, propertyPath);
+    const key = value?.parent?.type === 'property' ? value.parent.children?.[0] : undefined;
+    if (!key) {
+        throw new Error(`No property at ${propertyPath.join('.')}`);
+    }
+    if (findNodeAtLocation(value!.parent!.parent!, [newKey])) {
+        return getModificationEdits(originalText, propertyPath, undefined);
+    }
+    return [{ offset: key.offset, length: key.length, content: JSON.stringify(newKey) }];
+}
+
+/**
+ * Offset of the comma following a value, skipping whitespace and comments; -1 if there is none
+ */
+function findCommaAfter(text: string, offset: number): number {
+    const scanner = createScanner(text, true);
+    scanner.setPosition(offset);
+    scanner.scan();
+    return text.charAt(scanner.getTokenOffset()) === ',' ? scanner.getTokenOffset() : -1;
+}
+
+/**
+ * Delete a range of text, taking its whole line(s) with it when nothing else is on them
+ */
+function removeRange(text: string, start: number, end: number): string {
+    let lineStart = start;
+    while (lineStart > 0 && (text[lineStart - 1] === ' ' || text[lineStart - 1] === '\t')) {
+        lineStart--;
+    }
+    let lineEnd = end;
+    while (lineEnd < text.length && (text[lineEnd] === ' ' || text[lineEnd] === '\t')) {
+        lineEnd++;
+    }
+
+    const startsLine = lineStart === 0 || text[lineStart - 1] === '\n';
+    const endsLine = lineEnd === text.length || text[lineEnd] === '\n' || text[lineEnd] === '\r';
+    if (!startsLine || !endsLine) {
+        return text.slice(0, start) + text.slice(end);
+    }
+
+    if (text[lineEnd] === '\r') {
+        lineEnd++;
+    }
+    if (text[lineEnd] === '\n') {
+        lineEnd++;
+    }
+    return text.slice(0, lineStart) + text.slice(lineEnd);
+}
+
+/**
+ * Move an array element to a new index. The element's text is cut and reinserted
+ * verbatim, so comments inside it move along and comments around it stay put.
+ */
+function moveArrayElement(originalText: string, arrayPath: (string | number)[], fromIndex: number, toIndex: number): string {
+    if (fromIndex === toIndex) {
+        return originalText;
+    }
+
+    const root = parseTree(originalText);
+    const elements = (root && findNodeAtLocation(root, arrayPath))?.children || [];
+    const element = elements[fromIndex];
+    if (!element) {
+        throw new Error(`No element at index ${fromIndex}`);
+    }
+    const elementEnd = element.offset + element.length;
+    const elementText = originalText.substring(element.offset, elementEnd);
+
+    // Cut the element with the comma that separates it from its neighbour
+    let removed: string;
+    if (fromIndex < elements.length - 1) {
+        const comma = findCommaAfter(originalText, elementEnd);
+        removed = removeRange(originalText, element.offset, comma === -1 ? elementEnd : comma + 1);
+    } else {
+        const previous = elements[fromIndex - 1];
+        const comma = previous ? findCommaAfter(originalText, previous.offset + previous.length) : -1;
+        removed = removeRange(originalText, element.offset, elementEnd);
+        if (comma !== -1) {
+            removed = removed.slice(0, comma) + removed.slice(comma + 1);
+        }
+    }
+
+    const edits = modify(removed, [...arrayPath, toIndex], MOVE_PLACEHOLDER, { formattingOptions: FORMATTING, isArrayInsertion: true });
+    return applyEdits(removed, edits).replace(JSON.stringify(MOVE_PLACEHOLDER), () => elementText);
+}
+
+/**
+ * Insert a value into an array, creating the array when it does not exist yet
+ */
+function insertArrayElement(originalText: string, arrayPath: (string | number)[], index: number, value: any): string {
+    const edits = modify(originalText, [...arrayPath, index], value, { formattingOptions: FORMATTING, isArrayInsertion: true });
     return applyEdits(originalText, edits);
 }
 
+function clampIndex(index: number, length: number): number {
+    return Math.max(0, Math.min(index, length));
+}
+
 /**
  * Update a specific configuration in launch.json, preserving comments.
  */
 export function updateLaunchConfiguration(
     originalText: string,
     configName: string,
-    newConfig: any
+    newConfig: any,
+    launchPath: JSONPath = []
 ): string {
     try {
-        const data = parseJSONC(originalText);
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
 
-        if (!data.configurations) {
+        if (!launch.configurations) {
             throw new Error('No configurations found in launch.json');
         }
 
-        const configIndex = data.configurations.findIndex((config: any) => config.name === configName);
+        const configIndex = launch.configurations.findIndex((config: any) => config.name === configName);
         if (configIndex === -1) {
             throw new Error(`Configuration "${configName}" not found`);
         }
 
-        return applyModification(originalText, ['configurations', configIndex], newConfig);
+        return applyModification(originalText, [...launchPath, 'configurations', configIndex], newConfig);
     } catch (error) {
         throw new Error(`Failed to update configuration: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
+/**
+ * Update a specific compound in launch.json, preserving comments.
+ */
+export function updateLaunchCompound(
+    originalText: string,
+    compoundName: string,
+    newCompound: any,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+
+        if (!launch.compounds) {
+            throw new Error('No compounds found in launch.json');
+        }
+
+        const compoundIndex = launch.compounds.findIndex((compound: any) => compound.name === compoundName);
+        if (compoundIndex === -1) {
+            throw new Error(`Compound "${compoundName}" not found`);
+        }
+
+        return applyModification(originalText, [...launchPath, 'compounds', compoundIndex], newCompound);
+    } catch (error) {
+        throw new Error(`Failed to update compound: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 /**
  * Add a new configuration to launch.json, preserving comments.
  */
 export function addLaunchConfiguration(
     originalText: string,
-    newConfig: any
+    newConfig: any,
+    launchPath: JSONPath = []
 ): string {
     try {
-        const data = parseJSONC(originalText);
-        const insertIndex = data.configurations ? data.configurations.length : 0;
-        return applyModification(originalText, ['configurations', insertIndex], newConfig);
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+        const insertIndex = launch.configurations ? launch.configurations.length : 0;
+        return applyModification(originalText, [...launchPath, 'configurations', insertIndex], newConfig);
     } catch (error) {
         throw new Error(`Failed to add configuration: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
 
+/**
+ * Add a new compound to launch.json, preserving comments.
+ */
+export function addLaunchCompound(
+    originalText: string,
+    newCompound: any,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+        const insertIndex = launch.compounds ? launch.compounds.length : 0;
+        return applyModification(originalText, [...launchPath, 'compounds', insertIndex], newCompound);
+    } catch (error) {
+        throw new Error(`Failed to add compound: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Insert a configuration at an index of the configurations array, preserving comments.
+ * Indices past the end append.
+ */
+export function insertLaunchConfiguration(
+    originalText: string,
+    newConfig: any,
+    index: number,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+        const length = launch.configurations ? launch.configurations.length : 0;
+        return insertArrayElement(originalText, [...launchPath, 'configurations'], clampIndex(index, length), newConfig);
+    } catch (error) {
+        throw new Error(`Failed to insert configuration: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Insert a compound at an index of the compounds array, preserving comments.
+ * Indices past the end append.
+ */
+export function insertLaunchCompound(
+    originalText: string,
+    newCompound: any,
+    index: number,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+        const length = launch.compounds ? launch.compounds.length : 0;
+        return insertArrayElement(originalText, [...launchPath, 'compounds'], clampIndex(index, length), newCompound);
+    } catch (error) {
+        throw new Error(`Failed to insert compound: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 /**
  * Remove a configuration from launch.json, preserving comments.
  */
 export function removeLaunchConfiguration(
     originalText: string,
-    configName: string
+    configName: string,
+    launchPath: JSONPath = []
 ): string {
     try {
-        const data = parseJSONC(originalText);
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
 
-        if (!data.configurations) {
+        if (!launch.configurations) {
             throw new Error('No configurations found in launch.json');
         }
 
-        const configIndex = data.configurations.findIndex((config: any) => config.name === configName);
+        const configIndex = launch.configurations.findIndex((config: any) => config.name === configName);
         if (configIndex === -1) {
             throw new Error(`Configuration "${configName}" not found`);
         }
 
         // Setting value to undefined removes the item from the array
-        return applyModification(originalText, ['configurations', configIndex], undefined);
+        return applyModification(originalText, [...launchPath, 'configurations', configIndex], undefined);
     } catch (error) {
         throw new Error(`Failed to remove configuration: ${error instanceof Error ? error.message : String(error)}`);
     }
 }
+
+/**
+ * Move a configuration to a new position in the configurations array, preserving comments.
+ * `toIndex` is the configuration's index after the move and is clamped to the array.
+ */
+export function moveLaunchConfiguration(
+    originalText: string,
+    configName: string,
+    toIndex: number,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+
+        if (!launch.configurations) {
+            throw new Error('No configurations found in launch.json');
+        }
+
+        const configIndex = launch.configurations.findIndex((config: any) => config.name === configName);
+        if (configIndex === -1) {
+            throw new Error(`Configuration "${configName}" not found`);
+        }
+
+        const targetIndex = Math.max(0, Math.min(toIndex, launch.configurations.length - 1));
+        return moveArrayElement(originalText, [...launchPath, 'configurations'], configIndex, targetIndex);
+    } catch (error) {
+        throw new Error(`Failed to move configuration: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Remove a compound from launch.json, preserving comments.
+ */
+export function removeLaunchCompound(
+    originalText: string,
+    compoundName: string,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+
+        if (!launch.compounds) {
+            throw new Error('No compounds found in launch.json');
+        }
+
+        const compoundIndex = launch.compounds.findIndex((compound: any) => compound.name === compoundName);
+        if (compoundIndex === -1) {
+            throw new Error(`Compound "${compoundName}" not found`);
+        }
+
+        // Setting value to undefined removes the item from the array
+        return applyModification(originalText, [...launchPath, 'compounds', compoundIndex], undefined);
+    } catch (error) {
+        throw new Error(`Failed to remove compound: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Move a compound to a new position in the compounds array, preserving comments.
+ * `toIndex` is the compound's index after the move and is clamped to the array.
+ */
+export function moveLaunchCompound(
+    originalText: string,
+    compoundName: string,
+    toIndex: number,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+
+        if (!launch.compounds) {
+            throw new Error('No compounds found in launch.json');
+        }
+
+        const compoundIndex = launch.compounds.findIndex((compound: any) => compound.name === compoundName);
+        if (compoundIndex === -1) {
+            throw new Error(`Compound "${compoundName}" not found`);
+        }
+
+        const targetIndex = Math.max(0, Math.min(toIndex, launch.compounds.length - 1));
+        return moveArrayElement(originalText, [...launchPath, 'compounds'], compoundIndex, targetIndex);
+    } catch (error) {
+        throw new Error(`Failed to move compound: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Add an input declaration to launch.json, creating the inputs array if needed, preserving comments.
+ */
+export function addLaunchInput(
+    originalText: string,
+    newInput: any,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+        const insertIndex = launch.inputs ? launch.inputs.length : 0;
+        return applyModification(originalText, [...launchPath, 'inputs', insertIndex], newInput);
+    } catch (error) {
+        throw new Error(`Failed to add input: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Update an input declaration by id in launch.json, preserving comments.
+ */
+export function updateLaunchInput(
+    originalText: string,
+    inputId: string,
+    newInput: any,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+
+        if (!launch.inputs) {
+            throw new Error('No inputs found in launch.json');
+        }
+
+        const inputIndex = launch.inputs.findIndex((input: any) => input.id === inputId);
+        if (inputIndex === -1) {
+            throw new Error(`Input "${inputId}" not found`);
+        }
+
+        return applyModification(originalText, [...launchPath, 'inputs', inputIndex], newInput);
+    } catch (error) {
+        throw new Error(`Failed to update input: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Remove an input declaration by id from launch.json, preserving comments.
+ */
+export function removeLaunchInput(
+    originalText: string,
+    inputId: string,
+    launchPath: JSONPath = []
+): string {
+    try {
+        const launch = getLaunchSection(parseJSONC(originalText), launchPath);
+
+        if (!launch.inputs) {
+            throw new Error('No inputs found in launch.json');
+        }
+
+        const inputIndex = launch.inputs.findIndex((input: any) => input.id === inputId);
+        if (inputIndex === -1) {
+            throw new Error(`Input "${inputId}" not found`);
+        }
+
+        // Setting value to undefined removes the item from the array
+        return applyModification(originalText, [...launchPath, 'inputs', inputIndex], undefined);
+    } catch (error) {
+        throw new Error(`Failed to remove input: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
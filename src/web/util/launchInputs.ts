@@ -0,0 +1,58 @@
+// Input variables: `${input:id}` references and the inputs launch.json declares for them
+
+import { LaunchInput, LaunchInputType } from '../core/types';
+
+export const INPUT_TYPES: LaunchInputType[] = ['promptString', 'pickString', 'command'];
+
+const INPUT_REFERENCE = /\$\{input:([^}\s]+)\}/g;
+
+/**
+ * Ids of every `${input:id}` referenced anywhere in a value, in order of first use
+ */
+export function findInputReferences(value: unknown): string[] {
+    const ids = new Set<string>();
+    const visit = (node: unknown) => {
+        if (typeof node === 'string') {
+            for (const match of node.matchAll(INPUT_REFERENCE)) {
+                ids.add(match[1]);
+            }
+        } else if (Array.isArray(node)) {
+            node.forEach(visit);
+        } else if (node && typeof node === 'object') {
+            Object.values(node).forEach(visit);
+        }
+    };
+    visit(value);
+    return [...ids];
+}
+
+/**
+ * Input ids a configuration references that the launch file does not declare
+ */
+export function findUndeclaredInputs(config: unknown, inputs: LaunchInput[] | undefined): string[] {
+    const declared = new Set((inputs || []).map(input => input.id));
+    return findInputReferences(config).filter(id => !declared.has(id));
+}
+
+/**
+ * Problem with an input declaration, or undefined when it is usable: an id, a known
+ * type, options for pickString and a command for command inputs
+ */
+export function validateLaunchInput(input: LaunchInput): string | undefined {
+    if (!input.id || !input.id.trim()) {
+        return 'Input id is required';
+    }
+    if (/[\s}]/.test(input.id)) {
+        return `Input id "${input.id}" cannot contain whitespace or "}"`;
+    }
+    if (!INPUT_TYPES.includes(input.type)) {
+        return `Input "${input.id}" has unknown type "${input.type}"`;
+    }
+    if (input.type === 'pickString' && (!Array.isArray(input.options) || input.options.length === 0)) {
+        return `Input "${input.id}" needs at least one option`;
+    }
+    if (input.type === 'command' && !input.command) {
+        return `Input "${input.id}" needs a command`;
+    }
+    return undefined;
+}
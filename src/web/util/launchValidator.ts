@@ -0,0 +1,269 @@
+// Schema checks over launch.json text, located with jsonc-parser node offsets
+
+import { findNodeAtLocation, getNodePath, getNodeValue, JSONPath, Node, parseTree } from 'jsonc-parser';
+import { findMemberOwners } from './compoundMembers';
+import { findInputReferences } from './launchInputs';
+
+export type LaunchProblemSeverity = 'error' | 'warning' | 'information';
+
+/**
+ * Problems that have a quick fix
+ */
+export type LaunchProblemCode = 'duplicateName' | 'unknownMember' | 'deprecatedPythonPath' | 'deprecatedPythonType';
+
+/**
+ * A configuration or compound, by its position in launch.json and its name
+ */
+export interface LaunchProblemTarget {
+    kind: 'configuration' | 'compound';
+    index: number;
+    name?: string;
+}
+
+export interface LaunchProblem {
+    message: string;
+    severity: LaunchProblemSeverity;
+    code?: LaunchProblemCode;
+    offset: number;
+    length: number;
+    /** JSON path of the node the problem is reported on */
+    path: JSONPath;
+    /** Item the problem belongs to; undefined for problems of the file as a whole */
+    target?: LaunchProblemTarget;
+}
+
+/**
+ * A configuration's `program`, for checking that the path exists
+ */
+export interface ProgramReference {
+    target: LaunchProblemTarget;
+    program: string;
+    offset: number;
+    length: number;
+    path: JSONPath;
+    /** Task run before launching, which may build the program */
+    preLaunchTask?: string;
+}
+
+export interface LaunchValidationOptions {
+    /** Configuration names by workspace folder, for compound members of the form `{ name, folder }` */
+    folderConfigurations?: Record<string, string[]>;
+}
+
+const REQUIRED_PROPERTIES = ['name', 'type', 'request'];
+
+/**
+ * Elements of the array at `path`, or none when it is absent or not an array
+ */
+function getArrayItems(root: Node, path: JSONPath): Node[] {
+    const node = findNodeAtLocation(root, path);
+    return node?.type === 'array' ? node.children || [] : [];
+}
+
+/**
+ * Value node of an object property
+ */
+function getProperty(node: Node, key: string): Node | undefined {
+    return findNodeAtLocation(node, [key]);
+}
+
+/**
+ * Name of a configuration or compound node, when it has a string one
+ */
+function getName(node: Node): string | undefined {
+    const name = getProperty(node, 'name');
+    return name?.type === 'string' ? name.value : undefined;
+}
+
+function problemAt(
+    node: Node,
+    message: string,
+    severity: LaunchProblemSeverity,
+    target?: LaunchProblemTarget,
+    code?: LaunchProblemCode
+): LaunchProblem {
+    return { message, severity, code, offset: node.offset, length: node.length, path: getNodePath(node), target };
+}
+
+/**
+ * Report the name nodes of every configuration or compound whose name is used more than once
+ */
+function checkDuplicateNames(nodes: Node[], kind: LaunchProblemTarget['kind'], problems: LaunchProblem[]): void {
+    const byName = new Map<string, number[]>();
+    nodes.forEach((node, index) => {
+        const name = getName(node);
+        if (name !== undefined) {
+            byName.set(name, [...(byName.get(name) || []), index]);
+        }
+    });
+
+    for (const [name, indices] of byName) {
+        if (indices.length < 2) {
+            continue;
+        }
+        for (const index of indices) {
+            problems.push(problemAt(getProperty(nodes[index], 'name')!,
+                `Duplicate ${kind} name "${name}"; only one of them can be launched by name`,
+                'warning', { kind, index, name }, 'duplicateName'));
+        }
+    }
+}
+
+function checkConfiguration(node: Node, index: number, declaredInputs: Set<string>, problems: LaunchProblem[]): void {
+    const name = getName(node);
+    const target: LaunchProblemTarget = { kind: 'configuration', index, name };
+    if (node.type !== 'object') {
+        problems.push(problemAt(node, 'Configuration must be an object', 'error', target));
+        return;
+    }
+
+    for (const key of REQUIRED_PROPERTIES) {
+        const property = getProperty(node, key);
+        if (!property) {
+            problems.push(problemAt(node, `Configuration${name ? ` "${name}"` : ''} is missing "${key}"`, 'error', target));
+        } else if (property.type !== 'string' || !String(property.value).trim()) {
+            problems.push(problemAt(property, `"${key}" must be a non-empty string`, 'error', target));
+        }
+    }
+
+    const request = getProperty(node, 'request');
+    if (request?.type === 'string' && request.value && request.value !== 'launch' && request.value !== 'attach') {
+        problems.push(problemAt(request, `Unknown request "${request.value}"; expected "launch" or "attach"`, 'warning', target));
+    }
+
+    // The Python debugger renamed its type and interpreter setting; the old ones still work
+    const type = getProperty(node, 'type');
+    if (type?.value === 'python') {
+        problems.push(problemAt(type, 'Type "python" is deprecated; use "debugpy"', 'information', target, 'deprecatedPythonType'));
+    }
+    const pythonPath = getProperty(node, 'pythonPath');
+    if (pythonPath && (type?.value === 'python' || type?.value === 'debugpy')) {
+        problems.push(problemAt(pythonPath.parent!.children![0], '"pythonPath" is deprecated; use "python"', 'information', target, 'deprecatedPythonPath'));
+    }
+
+    // Point at each string that references an input the file does not declare
+    const visit = (child: Node) => {
+        if (child.type === 'string') {
+            for (const id of findInputReferences(child.value)) {
+                if (!declaredInputs.has(id)) {
+                    problems.push(problemAt(child, `Input "${id}" is not declared in "inputs"`, 'warning', target));
+                }
+            }
+        }
+        child.children?.forEach(visit);
+    };
+    node.children?.forEach(visit);
+}
+
+function checkCompound(
+    node: Node,
+    index: number,
+    configurationNames: Set<string>,
+    options: LaunchValidationOptions,
+    problems: LaunchProblem[]
+): void {
+    const name = getName(node);
+    const target: LaunchProblemTarget = { kind: 'compound', index, name };
+    if (node.type !== 'object') {
+        problems.push(problemAt(node, 'Compound must be an object', 'error', target));
+        return;
+    }
+
+    if (name === undefined) {
+        problems.push(problemAt(getProperty(node, 'name') || node, 'Compound is missing a string "name"', 'error', target));
+    }
+
+    const members = getProperty(node, 'configurations');
+    if (!members || members.type !== 'array') {
+        problems.push(problemAt(members || node, `Compound${name ? ` "${name}"` : ''} needs a "configurations" array`, 'error', target));
+        return;
+    }
+    if (!members.children || members.children.length === 0) {
+        problems.push(problemAt(members, 'Compound has no configurations to launch', 'warning', target));
+        return;
+    }
+
+    for (const member of members.children) {
+        const value = getNodeValue(member);
+        if (typeof value === 'string') {
+            // Workspace folder names are never empty, so the empty key stands for this file
+            const owners = findMemberOwners(value, { ...options.folderConfigurations, '': [...configurationNames] }, '');
+            if (owners.length === 0) {
+                problems.push(problemAt(member, `Unknown configuration "${value}"`, 'error', target, 'unknownMember'));
+            } else if (owners.length > 1) {
+                problems.push(problemAt(member,
+                    `Configuration "${value}" exists in folders ${owners.map(folder => `"${folder}"`).join(', ')}; use { "name", "folder" }`,
+                    'error', target));
+            }
+            continue;
+        }
+        if (!value || typeof value !== 'object' || typeof value.name !== 'string' || typeof value.folder !== 'string') {
+            problems.push(problemAt(member, 'Compound member must be a configuration name or { "name", "folder" }', 'error', target));
+            continue;
+        }
+
+        const folderNames = options.folderConfigurations?.[value.folder];
+        if (options.folderConfigurations && !folderNames) {
+            problems.push(problemAt(member, `Unknown workspace folder "${value.folder}"`, 'error', target, 'unknownMember'));
+        } else if (folderNames && !folderNames.includes(value.name)) {
+            problems.push(problemAt(member, `Unknown configuration "${value.name}" in folder "${value.folder}"`, 'error', target, 'unknownMember'));
+        }
+    }
+}
+
+/**
+ * Check the launch section at `launchPath`: required properties, duplicate names, compound
+ * members that do not resolve and undeclared inputs. Syntax errors are left to the JSON
+ * language support; an unparsable file yields no problems.
+ */
+export function validateLaunchText(text: string, launchPath: JSONPath = [], options: LaunchValidationOptions = {}): LaunchProblem[] {
+    const root = parseTree(text);
+    if (!root) {
+        return [];
+    }
+
+    const problems: LaunchProblem[] = [];
+    const configurations = getArrayItems(root, [...launchPath, 'configurations']);
+    const compounds = getArrayItems(root, [...launchPath, 'compounds']);
+    const declaredInputs = new Set(getArrayItems(root, [...launchPath, 'inputs'])
+        .map(input => getProperty(input, 'id'))
+        .filter((id): id is Node => id?.type === 'string')
+        .map(id => id.value as string));
+
+    configurations.forEach((node, index) => checkConfiguration(node, index, declaredInputs, problems));
+    checkDuplicateNames(configurations, 'configuration', problems);
+
+    const configurationNames = new Set(configurations.map(getName).filter((name): name is string => name !== undefined));
+    compounds.forEach((node, index) => checkCompound(node, index, configurationNames, options, problems));
+    checkDuplicateNames(compounds, 'compound', problems);
+
+    return problems;
+}
+
+/**
+ * `program` values of launch configurations, with the offsets of their string nodes
+ */
+export function findProgramReferences(text: string, launchPath: JSONPath = []): ProgramReference[] {
+    const root = parseTree(text);
+    if (!root) {
+        return [];
+    }
+
+    const references: ProgramReference[] = [];
+    getArrayItems(root, [...launchPath, 'configurations']).forEach((node, index) => {
+        const program = node.type === 'object' ? getProperty(node, 'program') : undefined;
+        const request = node.type === 'object' ? getProperty(node, 'request') : undefined;
+        const preLaunchTask = node.type === 'object' ? getProperty(node, 'preLaunchTask') : undefined;
+        if (program?.type === 'string' && program.value && request?.value === 'launch') {
+            references.push({
+                target: { kind: 'configuration', index, name: getName(node) },
+                program: program.value,
+                offset: program.offset,
+                length: program.length,
+                path: getNodePath(program),
+                preLaunchTask: preLaunchTask?.type === 'string' && preLaunchTask.value ? preLaunchTask.value : undefined
+            });
+        }
+    });
+    return references;
+}
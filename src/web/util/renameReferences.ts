@@ -0,0 +1,128 @@
+/**
+ * Locate the text to change when a launch configuration is renamed: its own name,
+ * compound members and serverReadyAction references, and tasks named after it.
+ */
+
+import { parseTree, findNodeAtLocation } from 'jsonc-parser';
+import type { JSONPath, Node } from 'jsonc-parser';
+
+export type RenameEditKind = 'definition' | 'compoundMember' | 'serverReadyAction' | 'task';
+
+export interface RenameTextEdit {
+    /** Offset and length of the JSON string to replace, quotes included */
+    offset: number;
+    length: number;
+    newText: string;
+    kind: RenameEditKind;
+}
+
+export interface LaunchRenameOptions {
+    /** JSON path of the launch object ([] for launch.json, ['launch'] for .code-workspace) */
+    launchPath: JSONPath;
+    /** Whether the renamed configuration is defined in this file */
+    ownsConfiguration: boolean;
+    /** Workspace folder owning the configuration; compounds elsewhere reference it as `{ name, folder }` */
+    folderName?: string;
+}
+
+function stringEdit(node: Node | undefined, oldName: string, newName: string, kind: RenameEditKind): RenameTextEdit[] {
+    if (!node || node.type !== 'string' || node.value !== oldName) {
+        return [];
+    }
+    return [{ offset: node.offset, length: node.length, newText: JSON.stringify(newName), kind }];
+}
+
+function arrayItems(root: Node, path: JSONPath): Node[] {
+    const node = findNodeAtLocation(root, path);
+    return node?.type === 'array' ? node.children || [] : [];
+}
+
+/**
+ * Edits for a launch file. Strings in compounds refer to configurations of the same file;
+ * `{ name, folder }` members refer to the named folder's launch.json.
+ */
+export function findLaunchRenameEdits(text: string, oldName: string, newName: string, options: LaunchRenameOptions): RenameTextEdit[] {
+    const root = parseTree(text);
+    if (!root) {
+        return [];
+    }
+
+    const edits: RenameTextEdit[] = [];
+    const { launchPath, ownsConfiguration, folderName } = options;
+
+    if (ownsConfiguration) {
+        for (const config of arrayItems(root, [...launchPath, 'configurations'])) {
+            edits.push(...stringEdit(findNodeAtLocation(config, ['name']), oldName, newName, 'definition'));
+            edits.push(...stringEdit(findNodeAtLocation(config, ['serverReadyAction', 'config']), oldName, newName, 'serverReadyAction'));
+        }
+    }
+
+    for (const compound of arrayItems(root, [...launchPath, 'compounds'])) {
+        for (const member of arrayItems(compound, ['configurations'])) {
+            if (member.type === 'string' && ownsConfiguration) {
+                edits.push(...stringEdit(member, oldName, newName, 'compoundMember'));
+            } else if (member.type === 'object' && folderName !== undefined) {
+                const folder = findNodeAtLocation(member, ['folder']);
+                if (folder?.value === folderName) {
+                    edits.push(...stringEdit(findNodeAtLocation(member, ['name']), oldName, newName, 'compoundMember'));
+                }
+            }
+        }
+    }
+
+    return edits;
+}
+
+/**
+ * Edits for tasks named exactly like the configuration: their labels, `dependsOn` entries
+ * pointing at them, and the pre-launch/post-debug task references of the launch file
+ */
+export function findTaskRenameEdits(text: string, oldName: string, newName: string, tasksPath: JSONPath = []): RenameTextEdit[] {
+    const root = parseTree(text);
+    if (!root) {
+        return [];
+    }
+
+    const edits: RenameTextEdit[] = [];
+    for (const task of arrayItems(root, [...tasksPath, 'tasks'])) {
+        edits.push(...stringEdit(findNodeAtLocation(task, ['label']), oldName, newName, 'task'));
+
+        const dependsOn = findNodeAtLocation(task, ['dependsOn']);
+        if (dependsOn?.type === 'array') {
+            for (const dependency of dependsOn.children || []) {
+                edits.push(...stringEdit(dependency, oldName, newName, 'task'));
+            }
+        } else {
+            edits.push(...stringEdit(dependsOn, oldName, newName, 'task'));
+        }
+    }
+    return edits;
+}
+
+/**
+ * Edits for `preLaunchTask`/`postDebugTask` values in a launch file that name a renamed task
+ */
+export function findTaskReferenceEdits(text: string, oldName: string, newName: string, launchPath: JSONPath = []): RenameTextEdit[] {
+    const root = parseTree(text);
+    if (!root) {
+        return [];
+    }
+
+    const entries = [
+        ...arrayItems(root, [...launchPath, 'configurations']),
+        ...arrayItems(root, [...launchPath, 'compounds'])
+    ];
+    return entries.flatMap(entry => [
+        ...stringEdit(findNodeAtLocation(entry, ['preLaunchTask']), oldName, newName, 'task'),
+        ...stringEdit(findNodeAtLocation(entry, ['postDebugTask']), oldName, newName, 'task')
+    ]);
+}
+
+/**
+ * Apply edits to text, for previews and tests
+ */
+export function applyRenameEdits(text: string, edits: RenameTextEdit[]): string {
+    return [...edits]
+        .sort((a, b) => b.offset - a.offset)
+        .reduce((result, edit) => result.slice(0, edit.offset) + edit.newText + result.slice(edit.offset + edit.length), text);
+}
@@ -0,0 +1,37 @@
+// Names for configurations that collide with existing ones
+
+export type NameSuffixStyle = 'index' | 'timestamp';
+
+/**
+ * Compact local timestamp used by the `timestamp` suffix style, e.g. 20250811-129900
+ */
+function formatTimestamp(now: Date): string {
+    return now.getFullYear() +
+        String(now.getMonth() + 1).padStart(2, '0') +
+        String(now.getDate()).padStart(2, '0') + '-' +
+        String(now.getHours()).padStart(2, '0') +
+        String(now.getMinutes()).padStart(2, '0') +
+        String(now.getSeconds()).padStart(2, '0');
+}
+
+/**
+ * Suffix a name so it is not in `existingNames`, following `tingly.debug.nameCollisionSuffixStyle`:
+ * `Name-<timestamp>` when that style is chosen and free, otherwise `Name - 1`, `Name - 2`, …
+ */
+export function makeUniqueName(baseName: string, existingNames: Set<string>, style: NameSuffixStyle = 'index', now: Date = new Date()): string {
+    if (style === 'timestamp') {
+        const timestampName = `${baseName}-${formatTimestamp(now)}`;
+        if (!existingNames.has(timestampName)) {
+            return timestampName;
+        }
+    }
+
+    // Fallback to index suffix (or use it directly if configured)
+    for (let counter = 1; counter <= 9999; counter++) {
+        const indexedName = `${baseName} - ${counter}`;
+        if (!existingNames.has(indexedName)) {
+            return indexedName;
+        }
+    }
+    throw new Error('Unable to generate unique configuration name after many attempts');
+}
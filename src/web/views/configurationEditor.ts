@@ -1,38 +1,52 @@
 import * as vscode from 'vscode';
-import { ConfigurationData, LaunchCompound, LaunchConfiguration } from '../core/types';
+import { ConfigurationData, LaunchCompound, LaunchConfiguration, LaunchInput } from '../core/types';
 import htmlTemplate from './configurationEditor/index.html';
 import cssStyles from './configurationEditor/styles.css';
 import jsScript from './configurationEditor/script.txt';
-import { DebugConfigurationProvider } from './debugPanel';
+import { DebugConfigurationProvider, LaunchScope } from './debugPanel';
 import { createModuleLogger } from '../util/logger';
+import { startRun } from '../core/runLauncher';
+import { findUndeclaredInputs, validateLaunchInput } from '../util/launchInputs';
+import { resolveConfiguration } from '../config/variableResolver';
+import { getVariableContext } from '../core/variableContext';
 
 const log = createModuleLogger('ConfigurationEditor');
 
 export class ConfigurationEditor {
     private static openPanels = new Map<string, vscode.WebviewPanel>();
 
+    /**
+     * Build the panel ID for a configuration; the launch file URI keeps equally named
+     * configurations from different workspace folders in separate tabs
+     */
+    private static getPanelId(configName: string, scope?: LaunchScope): string {
+        return scope
+            ? `debugConfigSettings_${scope.uri.toString()}#${configName}`
+            : `debugConfigSettings_${configName}`;
+    }
+
     /**
      * Check if a specific configuration editor tab is open
      */
-    static isTabOpen(configName: string): boolean {
-        const panelId = `debugConfigSettings_${configName}`;
-        return ConfigurationEditor.openPanels.has(panelId);
+    static isTabOpen(configName: string, scope?: LaunchScope): boolean {
+        return ConfigurationEditor.openPanels.has(this.getPanelId(configName, scope));
     }
 
     /**
      * Get all open configuration tabs
      */
     static getOpenTabs(): string[] {
+        // URIs encode '#', so the first one separates the scope from the configuration name
         return Array.from(ConfigurationEditor.openPanels.keys())
-            .map(panelId => panelId.replace('debugConfigSettings_', ''));
+            .map(panelId => panelId.replace('debugConfigSettings_', '').replace(/^[^#]*:[^#]*#/, ''));
     }
 
 
     /**
      * Refresh a specific tab with updated configuration data
      */
-    static async refreshTab(configName: string, provider: DebugConfigurationProvider): Promise<void> {
-        const panelId = `debugConfigSettings_${configName}`;
+    static async refreshTab(configName: string, provider: DebugConfigurationProvider, scope?: LaunchScope): Promise<void> {
+        const panelId = this.getPanelId(configName, scope);
         const panel = ConfigurationEditor.openPanels.get(panelId);
 
         if (!panel) {
@@ -43,7 +57,7 @@ export class ConfigurationEditor {
             log.debug(`Refreshing tab for "${configName}"`);
 
             // Get latest configuration from provider
-            const targetConfig = await this.getConfigurationFromProvider(configName, provider);
+            const targetConfig = await this.getConfigurationFromProvider(configName, provider, scope);
             if (!targetConfig) {
                 log.error(`Configuration "${configName}" not found for refresh`);
                 return;
@@ -61,6 +75,8 @@ export class ConfigurationEditor {
             const { name, type, request, ...customProperties } = configData.properties;
             configData.properties = customProperties;
 
+            const inputs = await this.getInputs(provider, scope);
+
             // Update the webview content
             panel.webview.html = this.getConfigurationSettingsWebviewContent();
 
@@ -100,6 +116,7 @@ export class ConfigurationEditor {
                             })()
                         },
                         commonTypes: this.getCommonConfigurationTypes(),
+                        inputs,
                         initialConfig: JSON.stringify(targetConfig, null, 2)
                     };
 
@@ -119,8 +136,8 @@ export class ConfigurationEditor {
     /**
      * Close a specific tab
      */
-    static closeTab(configName: string): void {
-        const panelId = `debugConfigSettings_${configName}`;
+    static closeTab(configName: string, scope?: LaunchScope): void {
+        const panelId = this.getPanelId(configName, scope);
         const panel = ConfigurationEditor.openPanels.get(panelId);
 
         if (panel) {
@@ -133,10 +150,10 @@ export class ConfigurationEditor {
     /**
      * Get configuration data from provider
      */
-    private static async getConfigurationFromProvider(configName: string, provider: DebugConfigurationProvider): Promise<LaunchConfiguration | null> {
+    private static async getConfigurationFromProvider(configName: string, provider: DebugConfigurationProvider, scope?: LaunchScope): Promise<LaunchConfiguration | null> {
         try {
             log.debug(`Getting configuration "${configName}" from provider`);
-            const configurations = await provider.readConfigurationsOnly();
+            const configurations = await provider.readConfigurationsOnly(scope);
 
             if (!configurations || !Array.isArray(configurations)) {
                 log.error('Invalid configurations returned from provider');
@@ -156,34 +173,36 @@ export class ConfigurationEditor {
 
     static async openConfigurationEditor(
         config: LaunchConfiguration | LaunchCompound,
-        provider: DebugConfigurationProvider
+        provider: DebugConfigurationProvider,
+        scope?: LaunchScope
     ): Promise<void> {
-        // Only allow configuration settings for LaunchConfiguration, not compounds
+        // Compounds get their own editor mode
         if ('configurations' in config) {
-            vscode.window.showWarningMessage('Configuration settings are not available for compound configurations');
+            await this.openCompoundEditor(config as LaunchCompound, provider, scope);
             return;
         }
 
         const launchConfig = config as LaunchConfiguration;
+        const launchScope = scope || provider.getDefaultScope();
         // Use a mutable reference to track the current name (may change after save)
         const currentConfigState = {
             name: launchConfig.name,
             type: launchConfig.type,
             request: launchConfig.request
         };
-        const panelId = `debugConfigSettings_${launchConfig.name}`;
+        const panelId = this.getPanelId(launchConfig.name, launchScope);
 
         log.debug(`Opening configuration editor tab for "${launchConfig.name}"`);
 
         // Check if this specific tab is already open
-        if (ConfigurationEditor.isTabOpen(launchConfig.name)) {
+        if (ConfigurationEditor.isTabOpen(launchConfig.name, launchScope)) {
             // Tab already exists, just focus it
             log.debug('Tab already open, focusing existing tab');
             const existingPanel = ConfigurationEditor.openPanels.get(panelId);
             if (existingPanel) {
                 existingPanel.reveal();
                 // Refresh the tab content to ensure it's up-to-date
-                await ConfigurationEditor.refreshTab(launchConfig.name, provider);
+                await ConfigurationEditor.refreshTab(launchConfig.name, provider, launchScope);
                 return;
             }
         }
@@ -238,9 +257,9 @@ export class ConfigurationEditor {
                     case 'openTab':
                         // Open another configuration in a new tab
                         try {
-                            const targetConfig = await ConfigurationEditor.getConfigurationFromProvider(message.configName, provider);
+                            const targetConfig = await ConfigurationEditor.getConfigurationFromProvider(message.configName, provider, launchScope);
                             if (targetConfig) {
-                                await ConfigurationEditor.openConfigurationEditor(targetConfig, provider);
+                                await ConfigurationEditor.openConfigurationEditor(targetConfig, provider, launchScope);
                             } else {
                                 vscode.window.showErrorMessage(`Configuration "${message.configName}" not found`);
                             }
@@ -250,7 +269,7 @@ export class ConfigurationEditor {
                         break;
                     case 'browseEnvFile':
                         try {
-                            await this.handleEnvFileBrowse(message.currentPath, panel, provider);
+                            await this.handleEnvFileBrowse(message.currentPath, panel, launchScope);
                         } catch (error) {
                             panel.webview.postMessage({
                                 command: 'showEnvFileError',
@@ -260,7 +279,7 @@ export class ConfigurationEditor {
                         break;
                     case 'browseCwd':
                         try {
-                            await this.handleCwdBrowse(message.currentPath, panel, provider);
+                            await this.handleCwdBrowse(message.currentPath, panel, launchScope);
                         } catch (error) {
                             panel.webview.postMessage({
                                 command: 'showError',
@@ -270,7 +289,7 @@ export class ConfigurationEditor {
                         break;
                     case 'browseProgram':
                         try {
-                            await this.handleProgramBrowse(message.currentPath, panel, provider);
+                            await this.handleProgramBrowse(message.currentPath, panel, launchScope);
                         } catch (error) {
                             panel.webview.postMessage({
                                 command: 'showError',
@@ -291,21 +310,18 @@ export class ConfigurationEditor {
                             }
 
                             // Save the configuration first (use current state name which may have changed)
-                            await provider.updateConfiguration(currentConfigState.name, configToRun);
-
-                            // Disable all breakpoints for run mode
-                            await vscode.commands.executeCommand('workbench.debug.viewlet.action.disableAllBreakpoints');
+                            await provider.updateConfiguration(currentConfigState.name, configToRun, launchScope);
 
                             // Ensure request type is valid
                             if (configToRun.request !== 'launch' && configToRun.request !== 'attach') {
                                 configToRun.request = 'launch';
                             }
 
+                            // Run without debugging; adapters lacking noDebug get breakpoints suppressed instead
                             // Pass the workspace folder to allow VS Code to resolve ${workspaceFolder} variables
-                            const workspaceFolders = vscode.workspace.workspaceFolders;
-                            const workspaceFolder = workspaceFolders?.[0] || undefined;
-                            await vscode.debug.startDebugging(workspaceFolder, configToRun);
-                            vscode.window.showInformationMessage(`Configuration "${configToRun.name}" is now running (breakpoints disabled)!`);
+                            provider.trackLaunch(configToRun, 'run', launchScope);
+                            await startRun(launchScope?.folder, configToRun);
+                            vscode.window.showInformationMessage(`Configuration "${configToRun.name}" is now running!`);
                             // panel.dispose(); // Keep panel open after running
                         } catch (error) {
                             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -328,10 +344,7 @@ export class ConfigurationEditor {
                             }
 
                             // Save the configuration first (use current state name which may have changed)
-                            await provider.updateConfiguration(currentConfigState.name, configToDebug);
-
-                            // Enable all breakpoints for debug mode
-                            await vscode.commands.executeCommand('workbench.debug.viewlet.action.enableAllBreakpoints');
+                            await provider.updateConfiguration(currentConfigState.name, configToDebug, launchScope);
 
                             // Ensure request type is valid
                             if (configToDebug.request !== 'launch' && configToDebug.request !== 'attach') {
@@ -339,10 +352,9 @@ export class ConfigurationEditor {
                             }
 
                             // Pass the workspace folder to allow VS Code to resolve ${workspaceFolder} variables
-                            const workspaceFolders = vscode.workspace.workspaceFolders;
-                            const workspaceFolder = workspaceFolders?.[0] || undefined;
-                            await vscode.debug.startDebugging(workspaceFolder, configToDebug);
-                            vscode.window.showInformationMessage(`Configuration "${configToDebug.name}" is now debugging (breakpoints enabled)!`);
+                            provider.trackLaunch(configToDebug, 'debug', launchScope);
+                            await vscode.debug.startDebugging(launchScope?.folder, configToDebug);
+                            vscode.window.showInformationMessage(`Configuration "${configToDebug.name}" is now debugging!`);
                             // panel.dispose(); // Keep panel open after debugging
                         } catch (error) {
                             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -369,7 +381,7 @@ export class ConfigurationEditor {
 
                             // Check if name has changed and if there's a conflict
                             if (newName !== oldName) {
-                                const launchJson = await provider.readLaunchJson();
+                                const launchJson = await provider.readLaunchJson(launchScope);
 
                                 if (!launchJson || !Array.isArray(launchJson.configurations)) {
                                     throw new Error('Invalid launch.json structure');
@@ -387,9 +399,17 @@ export class ConfigurationEditor {
                                 }
                             }
 
-                            await provider.updateConfiguration(currentConfigState.name, updatedConfig);
+                            await provider.updateConfiguration(currentConfigState.name, updatedConfig, launchScope);
                             vscode.window.showInformationMessage(`Configuration "${newName}" updated successfully!`);
 
+                            // Saving still goes ahead; the launch would prompt for an input that does not exist
+                            const undeclared = findUndeclaredInputs(updatedConfig, await this.getInputs(provider, launchScope));
+                            if (undeclared.length > 0) {
+                                vscode.window.showWarningMessage(
+                                    `Configuration "${newName}" references undeclared inputs: ${undeclared.join(', ')}`
+                                );
+                            }
+
                             // Update internal state after successful save with new name
                             if (newName !== oldName) {
                                 // Update the current config state
@@ -403,8 +423,8 @@ export class ConfigurationEditor {
                                 configData.request = updatedConfig.request;
 
                                 // Migrate the panel in openPanels Map
-                                const oldPanelId = `debugConfigSettings_${oldName}`;
-                                const newPanelId = `debugConfigSettings_${newName}`;
+                                const oldPanelId = this.getPanelId(oldName, launchScope);
+                                const newPanelId = this.getPanelId(newName, launchScope);
                                 ConfigurationEditor.openPanels.delete(oldPanelId);
                                 ConfigurationEditor.openPanels.set(newPanelId, panel);
 
@@ -425,17 +445,72 @@ export class ConfigurationEditor {
                             vscode.window.showErrorMessage(`Failed to update configuration: ${error}`);
                         }
                         break;
+                    case 'resolvePreview':
+                        try {
+                            panel.webview.postMessage({
+                                command: 'resolvedPreview',
+                                properties: resolveConfiguration(message.config || {}, getVariableContext(launchScope?.folder))
+                            });
+                        } catch (error) {
+                            log.warn('Failed to resolve configuration preview:', error);
+                        }
+                        break;
+                    case 'saveInput':
+                        try {
+                            const input = message.input as LaunchInput;
+                            const problem = validateLaunchInput(input);
+                            if (problem) {
+                                panel.webview.postMessage({ command: 'showInputError', message: problem });
+                                return;
+                            }
+
+                            const inputs = await this.getInputs(provider, launchScope);
+                            if (input.id !== message.oldId && inputs.some(existing => existing.id === input.id)) {
+                                panel.webview.postMessage({
+                                    command: 'showInputError',
+                                    message: `Input id "${input.id}" already exists. Please choose a different id.`
+                                });
+                                return;
+                            }
+
+                            await provider.saveInput(message.oldId, input, launchScope);
+                            panel.webview.postMessage({
+                                command: 'setInputs',
+                                inputs: await this.getInputs(provider, launchScope)
+                            });
+                        } catch (error) {
+                            vscode.window.showErrorMessage(`Failed to save input: ${error}`);
+                        }
+                        break;
+                    case 'deleteInput':
+                        try {
+                            const confirmed = await vscode.window.showWarningMessage(
+                                `Delete input "${message.id}"? Configurations referencing \${input:${message.id}} will no longer resolve it.`,
+                                { modal: true },
+                                'Delete'
+                            );
+                            if (confirmed !== 'Delete') {
+                                return;
+                            }
+
+                            await provider.deleteInput(message.id, launchScope);
+                            panel.webview.postMessage({
+                                command: 'setInputs',
+                                inputs: await this.getInputs(provider, launchScope)
+                            });
+                        } catch (error) {
+                            vscode.window.showErrorMessage(`Failed to delete input: ${error}`);
+                        }
+                        break;
                     case 'cancel':
                         panel.dispose();
                         break;
                     case 'openLaunchJson':
                         try {
-                            const launchJsonPath = provider['launchJsonPath'];
-                            if (!launchJsonPath || typeof launchJsonPath !== 'string') {
+                            if (!launchScope) {
                                 throw new Error('Invalid launch.json path');
                             }
-                            const launchUri = vscode.Uri.file(launchJsonPath);
-                            const document = await vscode.workspace.openTextDocument(launchUri);
+                            const document = await vscode.workspace.openTextDocument(launchScope.uri);
                             await vscode.window.showTextDocument(document);
                         } catch (error) {
                             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -517,6 +592,7 @@ export class ConfigurationEditor {
                                     })()
                                 },
                                 commonTypes: this.getCommonConfigurationTypes(),
+                                inputs: await this.getInputs(provider, launchScope),
                                 initialConfig: JSON.stringify(configData, null, 2)
                             };
 
@@ -535,9 +611,9 @@ export class ConfigurationEditor {
                     case 'resetConfiguration':
                         // Close current panel and reopen the configuration
                         try {
-                            const targetConfig = await this.getConfigurationFromProvider(message.configName, provider);
+                            const targetConfig = await this.getConfigurationFromProvider(message.configName, provider, launchScope);
                             if (targetConfig) {
-                                await this.openConfigurationEditor(targetConfig, provider);
+                                await this.openConfigurationEditor(targetConfig, provider, launchScope);
                             } else {
                                 vscode.window.showErrorMessage(`Configuration "${message.configName}" not found for reset`);
                             }
@@ -554,6 +630,231 @@ export class ConfigurationEditor {
         );
     }
 
+    /**
+     * Open the editor in compound mode: member order and folders, stopAll and preLaunchTask
+     */
+    private static async openCompoundEditor(
+        compound: LaunchCompound,
+        provider: DebugConfigurationProvider,
+        scope?: LaunchScope
+    ): Promise<void> {
+        const launchScope = scope || provider.getDefaultScope();
+        // Use a mutable reference to track the current name (may change after save)
+        const currentCompoundState = { name: compound.name };
+        const panelId = this.getPanelId(compound.name, launchScope);
+
+        log.debug(`Opening compound editor tab for "${compound.name}"`);
+
+        const existingPanel = ConfigurationEditor.openPanels.get(panelId);
+        if (existingPanel) {
+            existingPanel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            panelId,
+            `Compound Settings: ${compound.name}`,
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        ConfigurationEditor.openPanels.set(panelId, panel);
+        panel.webview.html = this.getConfigurationSettingsWebviewContent();
+
+        panel.onDidDispose(() => {
+            ConfigurationEditor.openPanels.delete(this.getPanelId(currentCompoundState.name, launchScope));
+        });
+
+        const initialize = async (target: LaunchCompound) => {
+            panel.webview.postMessage({
+                command: 'initialize',
+                data: {
+                    mode: 'compound',
+                    config: target,
+                    memberOptions: await this.getCompoundMemberOptions(provider, launchScope),
+                    folders: (vscode.workspace.workspaceFolders || []).map(folder => folder.name),
+                    tasks: await this.getTaskLabels()
+                }
+            });
+        };
+
+        // Returns the saved compound, or undefined when validation failed and the webview was told why
+        const save = async (config: any): Promise<LaunchCompound | undefined> => {
+            const updatedCompound = this.validateAndSanitizeCompound(config);
+            if (!updatedCompound) {
+                panel.webview.postMessage({
+                    command: 'showError',
+                    message: 'Invalid compound: a name and at least one configuration are required'
+                });
+                return undefined;
+            }
+
+            const newName = updatedCompound.name;
+            const oldName = currentCompoundState.name;
+
+            if (newName !== oldName) {
+                const launchJson = await provider.readLaunchJson(launchScope);
+                const nameTaken = [...(launchJson.configurations || []), ...(launchJson.compounds || [])]
+                    .some(existing => existing && existing.name === newName);
+
+                if (nameTaken) {
+                    panel.webview.postMessage({
+                        command: 'showError',
+                        message: `Configuration name "${newName}" already exists. Please choose a different name.`
+                    });
+                    return undefined;
+                }
+            }
+
+            await provider.updateConfiguration(oldName, updatedCompound, launchScope);
+
+            if (newName !== oldName) {
+                currentCompoundState.name = newName;
+                ConfigurationEditor.openPanels.delete(this.getPanelId(oldName, launchScope));
+                ConfigurationEditor.openPanels.set(this.getPanelId(newName, launchScope), panel);
+                panel.title = `Compound Settings: ${newName}`;
+                log.debug(`Compound renamed from "${oldName}" to "${newName}"`);
+            }
+
+            panel.webview.postMessage({
+                command: 'saveSuccess',
+                config: updatedCompound
+            });
+            return updatedCompound;
+        };
+
+        panel.webview.onDidReceiveMessage(
+            async (message) => {
+                switch (message.command) {
+                    case 'ready':
+                        try {
+                            await initialize(compound);
+                        } catch (error) {
+                            log.error('Error initializing compound editor:', error);
+                            panel.webview.postMessage({
+                                command: 'showError',
+                                message: `Failed to initialize compound editor: ${error}`
+                            });
+                        }
+                        break;
+                    case 'saveConfiguration':
+                        try {
+                            const saved = await save(message.config);
+                            if (saved) {
+                                vscode.window.showInformationMessage(`Compound "${saved.name}" updated successfully!`);
+                            }
+                        } catch (error) {
+                            vscode.window.showErrorMessage(`Failed to update compound: ${error}`);
+                        }
+                        break;
+                    case 'runConfiguration':
+                    case 'debugConfiguration':
+                        try {
+                            const saved = await save(message.config);
+                            if (!saved) {
+                                return;
+                            }
+
+                            // Compound: launch by name — VS Code resolves all member configs
+                            if (message.command === 'debugConfiguration') {
+                                provider.trackLaunch(saved, 'debug', launchScope);
+                                await vscode.debug.startDebugging(launchScope?.folder, saved.name);
+                            } else {
+                                const members = await provider.resolveCompoundConfigurations(saved, launchScope);
+                                provider.trackLaunch(saved, 'run', launchScope);
+                                await startRun(launchScope?.folder, saved, members?.map(member => member.config));
+                            }
+                            vscode.window.showInformationMessage(`Compound "${saved.name}" launched!`);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            panel.webview.postMessage({
+                                command: 'showError',
+                                message: `Failed to launch compound: ${errorMessage}`
+                            });
+                        }
+                        break;
+                    case 'cancel':
+                        panel.dispose();
+                        break;
+                    case 'openLaunchJson':
+                        try {
+                            if (!launchScope) {
+                                throw new Error('Invalid launch.json path');
+                            }
+                            const document = await vscode.workspace.openTextDocument(launchScope.uri);
+                            await vscode.window.showTextDocument(document);
+                        } catch (error) {
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            vscode.window.showErrorMessage(`Failed to open launch.json: ${errorMessage}`);
+                        }
+                        break;
+                }
+            },
+            undefined,
+            []
+        );
+    }
+
+    /**
+     * Configurations a compound can reference: its own launch file's by name, and other
+     * workspace folders' by name plus folder
+     */
+    private static async getCompoundMemberOptions(
+        provider: DebugConfigurationProvider,
+        scope?: LaunchScope
+    ): Promise<{ name: string; folder?: string }[]> {
+        const options: { name: string; folder?: string }[] = [];
+
+        for (const candidate of provider.getLaunchScopes()) {
+            const isOwnScope = candidate.uri.toString() === scope?.uri.toString();
+            if (!isOwnScope && !candidate.folder) {
+                // Workspace-level configurations cannot be addressed by folder
+                continue;
+            }
+
+            try {
+                const configurations = await provider.readConfigurationsOnly(candidate);
+                configurations
+                    .filter(config => config && config.name)
+                    .forEach(config => options.push(isOwnScope ? { name: config.name } : { name: config.name, folder: candidate.folder!.name }));
+            } catch (error) {
+                log.warn(`Skipping configurations of ${candidate.label}:`, error);
+            }
+        }
+
+        return options;
+    }
+
+    /**
+     * Inputs declared in the launch file; an unreadable file has none
+     */
+    private static async getInputs(provider: DebugConfigurationProvider, scope?: LaunchScope): Promise<LaunchInput[]> {
+        try {
+            const launchJson = await provider.readLaunchJson(scope);
+            return Array.isArray(launchJson.inputs) ? launchJson.inputs : [];
+        } catch (error) {
+            log.warn('Failed to read launch inputs:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Task labels as referenced from preLaunchTask (e.g. "npm: build")
+     */
+    private static async getTaskLabels(): Promise<string[]> {
+        try {
+            const tasks = await vscode.tasks.fetchTasks();
+            const labels = tasks.map(task => task.source === 'Workspace' ? task.name : `${task.source}: ${task.name}`);
+            return Array.from(new Set(labels));
+        } catch (error) {
+            log.warn('Failed to fetch tasks:', error);
+            return [];
+        }
+    }
+
     private static getCommonConfigurationTypes(): string[] {
         return [
             'node',
@@ -581,13 +882,19 @@ export class ConfigurationEditor {
         ];
     }
 
-    private static async handleProgramBrowse(currentPath: string, panel: vscode.WebviewPanel, provider: DebugConfigurationProvider): Promise<void> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
+    /**
+     * Root used to resolve ${workspaceFolder}: the scope's folder, or the first folder for workspace-level configurations
+     */
+    private static getWorkspaceRoot(scope?: LaunchScope): string {
+        const folder = scope?.folder || vscode.workspace.workspaceFolders?.[0];
+        if (!folder) {
             throw new Error('No workspace folder found');
         }
+        return folder.uri.fsPath;
+    }
 
-        const workspaceRoot = workspaceFolders[0].uri.fsPath;
+    private static async handleProgramBrowse(currentPath: string, panel: vscode.WebviewPanel, scope?: LaunchScope): Promise<void> {
+        const workspaceRoot = this.getWorkspaceRoot(scope);
 
         // Replace ${workspaceFolder} with actual path
         const resolvedPath = currentPath.replace('${workspaceFolder}', workspaceRoot);
@@ -620,13 +927,8 @@ export class ConfigurationEditor {
         }
     }
 
-    private static async handleCwdBrowse(currentPath: string, panel: vscode.WebviewPanel, provider: DebugConfigurationProvider): Promise<void> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            throw new Error('No workspace folder found');
-        }
-
-        const workspaceRoot = workspaceFolders[0].uri.fsPath;
+    private static async handleCwdBrowse(currentPath: string, panel: vscode.WebviewPanel, scope?: LaunchScope): Promise<void> {
+        const workspaceRoot = this.getWorkspaceRoot(scope);
 
         // Replace ${workspaceFolder} with actual path
         const resolvedPath = currentPath.replace('${workspaceFolder}', workspaceRoot);
@@ -659,13 +961,8 @@ export class ConfigurationEditor {
         }
     }
 
-    private static async handleEnvFileBrowse(currentPath: string, panel: vscode.WebviewPanel, provider: DebugConfigurationProvider): Promise<void> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            throw new Error('No workspace folder found');
-        }
-
-        const workspaceRoot = workspaceFolders[0].uri.fsPath;
+    private static async handleEnvFileBrowse(currentPath: string, panel: vscode.WebviewPanel, scope?: LaunchScope): Promise<void> {
+        const workspaceRoot = this.getWorkspaceRoot(scope);
 
         // Replace ${workspaceFolder} with actual path
         const resolvedPath = currentPath.replace('${workspaceFolder}', workspaceRoot);
@@ -800,4 +1097,41 @@ API_URL=http://localhost:3000
 
         return config as LaunchConfiguration;
     }
+
+    /**
+     * Validate and sanitize compound object
+     */
+    private static validateAndSanitizeCompound(compound: any): LaunchCompound | null {
+        if (!compound || typeof compound !== 'object') {
+            return null;
+        }
+
+        if (!compound.name || typeof compound.name !== 'string' || compound.name.trim() === '') {
+            return null;
+        }
+
+        if (!Array.isArray(compound.configurations) || compound.configurations.length === 0) {
+            return null;
+        }
+
+        const membersValid = compound.configurations.every((member: any) =>
+            (typeof member === 'string' && member.trim() !== '') ||
+            (member && typeof member === 'object' && typeof member.name === 'string' && typeof member.folder === 'string')
+        );
+        if (!membersValid) {
+            return null;
+        }
+
+        compound.name = compound.name.trim();
+
+        if (compound.stopAll !== undefined && typeof compound.stopAll !== 'boolean') {
+            delete compound.stopAll;
+        }
+
+        if (compound.preLaunchTask !== undefined && typeof compound.preLaunchTask !== 'string') {
+            delete compound.preLaunchTask;
+        }
+
+        return compound as LaunchCompound;
+    }
 }
\ No newline at end of file
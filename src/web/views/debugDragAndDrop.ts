@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { CompoundMember, LaunchCompound } from '../core/types';
+import { DebugCompoundMemberItem, DebugConfigurationItem, DebugConfigurationProvider, DebugFolderItem, DebugTreeItem, LaunchScope } from './debugPanel';
+import { createModuleLogger } from '../util/logger';
+
+const log = createModuleLogger('DragAndDrop');
+
+/** In-tree transfer type; VS Code derives it from the lowercased view id */
+const TREE_MIME_TYPE = 'application/vnd.code.tree.tingly.debug.debugconfigurations';
+
+function isCompound(item: DebugConfigurationItem): boolean {
+    return 'configurations' in item.config;
+}
+
+function sameScope(a?: LaunchScope, b?: LaunchScope): boolean {
+    return a?.uri.toString() === b?.uri.toString();
+}
+
+/**
+ * Drag configurations and compounds to reorder them in launch.json (which is also the
+ * order of the Run and Debug dropdown), or configurations onto a compound to add them as members
+ */
+export class DebugTreeDragAndDropController implements vscode.TreeDragAndDropController<DebugTreeItem> {
+    readonly dragMimeTypes = [TREE_MIME_TYPE];
+    readonly dropMimeTypes = [TREE_MIME_TYPE];
+
+    constructor(private readonly provider: DebugConfigurationProvider) { }
+
+    handleDrag(source: readonly DebugTreeItem[], dataTransfer: vscode.DataTransfer): void {
+        // Compound members belong to their compound; they are edited through it
+        const items = source.filter(item => item instanceof DebugConfigurationItem && !(item instanceof DebugCompoundMemberItem));
+        if (items.length > 0) {
+            dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(items));
+        }
+    }
+
+    async handleDrop(target: DebugTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const items = dataTransfer.get(TREE_MIME_TYPE)?.value as DebugConfigurationItem[] | undefined;
+        if (!items || items.length === 0) {
+            return;
+        }
+
+        try {
+            if (target instanceof DebugConfigurationItem && !(target instanceof DebugCompoundMemberItem)) {
+                if (isCompound(target)) {
+                    // Configurations dropped on a compound join it; compounds are reordered before it
+                    await this.addToCompound(target, items.filter(item => !isCompound(item)));
+                    await this.reorder(items.filter(isCompound), target.scope, target.config.name);
+                } else {
+                    await this.reorder(items.filter(item => !isCompound(item)), target.scope, target.config.name);
+                }
+            } else if (target instanceof DebugFolderItem) {
+                await this.reorder(items, target.scope, undefined);
+            } else if (!target) {
+                // Dropped on empty space below the list: move to the end
+                await this.reorder(items, items[0].scope || this.provider.getDefaultScope(), undefined);
+            }
+        } catch (error) {
+            log.error('Drop failed:', error);
+            vscode.window.showErrorMessage(`Failed to move configuration: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Move configurations or compounds of one launch file before the named entry of the
+     * same kind (or to the end of their array), keeping their relative order
+     */
+    private async reorder(items: DebugConfigurationItem[], scope: LaunchScope | undefined, beforeName: string | undefined): Promise<void> {
+        const movable = items.filter(item => item.config.name !== beforeName);
+        if (movable.some(item => !sameScope(item.scope, scope))) {
+            vscode.window.showWarningMessage('Configurations can only be reordered within their own launch file.');
+            return;
+        }
+
+        for (const item of movable) {
+            if (isCompound(item)) {
+                await this.provider.moveCompound(item.config.name, beforeName, scope);
+            } else {
+                await this.provider.moveConfiguration(item.config.name, beforeName, scope);
+            }
+        }
+    }
+
+    private async addToCompound(target: DebugConfigurationItem, items: DebugConfigurationItem[]): Promise<void> {
+        const members: CompoundMember[] = [];
+        for (const item of items) {
+            if (sameScope(item.scope, target.scope)) {
+                members.push(item.config.name);
+            } else if (item.scope?.folder) {
+                members.push({ name: item.config.name, folder: item.scope.folder.name });
+            } else {
+                vscode.window.showWarningMessage(`"${item.config.name}" lives in the workspace file and cannot be referenced from a folder's compound.`);
+                return;
+            }
+        }
+
+        if (members.length === 0) {
+            return;
+        }
+        await this.provider.addCompoundMembers(target.config as LaunchCompound, members, target.scope);
+        vscode.window.showInformationMessage(`Added ${members.length} configuration${members.length === 1 ? '' : 's'} to compound "${target.config.name}"`);
+    }
+}
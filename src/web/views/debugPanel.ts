@@ -1,21 +1,110 @@
 import * as vscode from 'vscode';
-import { ClickBehavior, LaunchCompound, LaunchConfiguration, LaunchJson } from '../core/types';
-import { parseJSONC, parseJSONCConfigurations, serializeJSONC, updateLaunchConfiguration, addLaunchConfiguration, removeLaunchConfiguration } from '../util/jsoncUtils';
+import { ClickBehavior, CompoundMember, LaunchCompound, LaunchConfiguration, LaunchInput, LaunchJson, PinnedConfiguration, RunHistoryEntry, RunStatus, SessionMode } from '../core/types';
+import { LaunchDiagnostics } from '../core/launchDiagnostics';
+import { PinnedConfigurations } from '../core/pinnedConfigurations';
+import { RunHistory } from '../core/runHistory';
+import { JSONCParseError, parseJSONC, parseJSONCConfigurations, parseLaunchTolerant, serializeJSONC, updateLaunchConfiguration, updateLaunchCompound, addLaunchConfiguration, addLaunchCompound, insertLaunchConfiguration, insertLaunchCompound, removeLaunchConfiguration, removeLaunchCompound, moveLaunchConfiguration, moveLaunchCompound, addLaunchInput, updateLaunchInput, removeLaunchInput, getLaunchSection } from '../util/jsoncUtils';
+import { matchesFilter } from '../util/configurationFilter';
+import { findMemberOwners } from '../util/compoundMembers';
+import { LaunchProblem } from '../util/launchValidator';
+import { COMPOUNDS_GROUP, GroupBy, groupConfigurations } from '../util/configurationGrouping';
 import { createModuleLogger } from '../util/logger';
 
 const log = createModuleLogger('DebugPanel');
 
+/**
+ * A place where launch configurations are stored: the launch.json of a workspace folder,
+ * or the `launch` section of the .code-workspace file in a multi-root workspace.
+ */
+export interface LaunchScope {
+    /** Owning workspace folder; undefined for the workspace file's `launch` section */
+    folder?: vscode.WorkspaceFolder;
+    /** File holding the launch data */
+    uri: vscode.Uri;
+    /** JSON path of the launch object inside the file ([] for launch.json, ['launch'] for .code-workspace) */
+    launchPath: string[];
+    label: string;
+}
+
+/**
+ * A compound member's configuration with the launch file it was found in
+ */
+export interface ResolvedCompoundMember {
+    config: LaunchConfiguration;
+    scope: LaunchScope;
+}
+
+export class DebugFolderItem extends vscode.TreeItem {
+    constructor(public readonly scope: LaunchScope) {
+        super(scope.label, vscode.TreeItemCollapsibleState.Expanded);
+        this.tooltip = scope.uri.fsPath;
+        this.description = scope.folder ? undefined : vscode.workspace.asRelativePath(scope.uri);
+        this.contextValue = 'folder';
+        this.iconPath = new vscode.ThemeIcon(scope.folder ? 'root-folder' : 'multiple-windows');
+    }
+}
+
+/**
+ * "Pinned" section at the very top of the tree
+ */
+export class DebugPinnedItem extends vscode.TreeItem {
+    constructor(public readonly pins: PinnedConfiguration[]) {
+        super('Pinned', vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'pinned';
+        this.iconPath = new vscode.ThemeIcon('pinned');
+    }
+}
+
+/**
+ * "Recent" section at the top of the tree listing the run history
+ */
+export class DebugRecentItem extends vscode.TreeItem {
+    constructor(public readonly entries: RunHistoryEntry[]) {
+        super('Recent', vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'recent';
+        this.iconPath = new vscode.ThemeIcon('history');
+    }
+}
+
+export class DebugHistoryItem extends vscode.TreeItem {
+    constructor(public readonly entry: RunHistoryEntry) {
+        super(entry.name, vscode.TreeItemCollapsibleState.None);
+        const time = new Date(entry.timestamp);
+        const isToday = time.toDateString() === new Date().toDateString();
+        const exitCode = entry.exitCode !== undefined ? ` (exit ${entry.exitCode})` : '';
+
+        this.description = `${entry.mode} · ${entry.status}${exitCode} · ${isToday ? time.toLocaleTimeString() : time.toLocaleString()}`;
+        this.tooltip = `${entry.compound ? 'Compound' : 'Configuration'} "${entry.name}" — ${entry.mode}, ${entry.status}${exitCode}\n${time.toLocaleString()}`;
+        this.contextValue = 'historyEntry';
+        this.iconPath = this.getIconForStatus(entry.status);
+    }
+
+    private getIconForStatus(status: RunStatus): vscode.ThemeIcon {
+        switch (status) {
+            case 'running':
+                return new vscode.ThemeIcon('loading~spin');
+            case 'succeeded':
+                return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+            case 'failed':
+                return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+            default:
+                return new vscode.ThemeIcon('circle-slash');
+        }
+    }
+}
+
 export class DebugConfigurationItem extends vscode.TreeItem {
     constructor(
         public readonly config: LaunchConfiguration | LaunchCompound,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
-        private clickBehavior?: ClickBehavior
+        private clickBehavior?: ClickBehavior,
+        public readonly scope?: LaunchScope
     ) {
         super(config.name, collapsibleState);
         this.tooltip = config.name;
         this.description = this.getDescription(config);
         this.contextValue = 'configuration';
-        this.iconPath = this.getIconForConfig(config);
+        this.iconPath = DebugConfigurationItem.getIconForConfig(config);
 
         // Set command based on click behavior configuration
         // Default to 'openSettings' if clickBehavior is not set
@@ -32,21 +121,56 @@ export class DebugConfigurationItem extends vscode.TreeItem {
         }
     }
 
+    /**
+     * Mark the item as pinned; the context value gains a `.pinned` suffix so the tree offers Unpin
+     */
+    setPinned(): void {
+        this.contextValue = `${this.contextValue}.pinned`;
+    }
+
+    /**
+     * Flag validation problems of the configuration with a warning or error icon and list them in the tooltip
+     */
+    setProblems(problems: LaunchProblem[]): void {
+        // Deprecation notes are left to the editor's diagnostics
+        problems = problems.filter(problem => problem.severity !== 'information');
+        if (problems.length === 0) {
+            return;
+        }
+        const hasError = problems.some(problem => problem.severity === 'error');
+        this.iconPath = hasError
+            ? new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground'))
+            : new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+        this.tooltip = [this.config.name, ...problems.map(problem => `⚠ ${problem.message}`)].join('\n');
+    }
+
+    /**
+     * Show that sessions of this configuration are live; running items get a
+     * `.running` context value so the tree offers Stop/Restart instead of Run/Debug
+     */
+    setSessionState(mode: SessionMode, sessionCount: number): void {
+        const label = mode === 'run' ? 'running' : 'debugging';
+        this.description = `${sessionCount > 1 ? `${label} (${sessionCount})` : label} · ${this.description}`;
+        this.iconPath = new vscode.ThemeIcon(mode === 'run' ? 'play-circle' : 'debug-alt', new vscode.ThemeColor('debugIcon.startForeground'));
+        this.contextValue = `${this.contextValue}.running`;
+    }
+
     private getDescription(config: LaunchConfiguration | LaunchCompound): string {
         if ('configurations' in config) {
             return `Compound (${config.configurations.length} configurations)`;
         }
-        return `${config.type} - ${config.request}`;
+        // Invalid configurations are still listed; the validator reports what is missing
+        return [config.type, config.request].filter(Boolean).join(' - ');
     }
 
-    private getIconForConfig(config: LaunchConfiguration | LaunchCompound): vscode.ThemeIcon {
+    static getIconForConfig(config: LaunchConfiguration | LaunchCompound): vscode.ThemeIcon {
         if ('configurations' in config) {
             // Compound configurations get a special icon
             return new vscode.ThemeIcon('gear');
         }
 
         const launchConfig = config as LaunchConfiguration;
-        const type = launchConfig.type.toLowerCase();
+        const type = typeof launchConfig.type === 'string' ? launchConfig.type.toLowerCase() : '';
         log.debug("type", type);
 
         // Map configuration types to appropriate language icons
@@ -104,6 +228,86 @@ export class DebugConfigurationItem extends vscode.TreeItem {
     }
 }
 
+/**
+ * Section of configurations sharing a debug type, request, program directory or
+ * `tinglyGroup` tag, depending on the `tingly.debug.groupBy` setting
+ */
+export class DebugGroupItem extends vscode.TreeItem {
+    constructor(
+        public readonly groupLabel: string,
+        public readonly items: DebugConfigurationItem[],
+        groupBy: GroupBy,
+        scope: LaunchScope | undefined,
+        expanded: boolean
+    ) {
+        super(groupLabel, expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+        this.id = DebugGroupItem.getId(groupLabel, groupBy, scope);
+        this.description = String(items.length);
+        this.contextValue = 'group';
+        this.iconPath = this.getIconForGroup(groupBy);
+    }
+
+    /**
+     * Stable id of a group, so its expanded state can be remembered across reloads
+     */
+    static getId(groupLabel: string, groupBy: GroupBy, scope?: LaunchScope): string {
+        return `group:${scope?.uri.toString() || ''}:${groupBy}:${groupLabel}`;
+    }
+
+    private getIconForGroup(groupBy: GroupBy): vscode.ThemeIcon {
+        if (this.groupLabel === COMPOUNDS_GROUP && groupBy !== 'tag') {
+            return new vscode.ThemeIcon('gear');
+        }
+        switch (groupBy) {
+            case 'type':
+                return DebugConfigurationItem.getIconForConfig(this.items[0].config);
+            case 'programDirectory':
+                return new vscode.ThemeIcon('folder');
+            case 'tag':
+                return new vscode.ThemeIcon('tag');
+            default:
+                return new vscode.ThemeIcon('list-tree');
+        }
+    }
+}
+
+/**
+ * Child of a compound node that resolves to an existing configuration; `scope` is the
+ * launch file owning that configuration, so run/debug/edit act on it directly
+ */
+export class DebugCompoundMemberItem extends DebugConfigurationItem {
+    constructor(
+        config: LaunchConfiguration,
+        public readonly compound: LaunchCompound,
+        public readonly member: CompoundMember,
+        clickBehavior?: ClickBehavior,
+        scope?: LaunchScope
+    ) {
+        super(config, vscode.TreeItemCollapsibleState.None, clickBehavior, scope);
+        this.contextValue = 'compoundMember';
+        if (typeof member !== 'string') {
+            this.description = `${this.description} · ${member.folder}`;
+        }
+    }
+}
+
+/**
+ * Child of a compound node whose configuration no longer exists
+ */
+export class DebugBrokenMemberItem extends vscode.TreeItem {
+    constructor(
+        public readonly compound: LaunchCompound,
+        public readonly member: CompoundMember,
+        reason: string
+    ) {
+        super(typeof member === 'string' ? member : member.name, vscode.TreeItemCollapsibleState.None);
+        this.description = reason;
+        this.tooltip = `Compound "${compound.name}" references a missing configuration: ${reason}`;
+        this.contextValue = 'compoundMember.broken';
+        this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.errorForeground'));
+    }
+}
+
 export interface ErrorConfiguration {
     name: string;
     type: 'error';
@@ -118,7 +322,7 @@ export class DebugErrorItem extends vscode.TreeItem {
     constructor(
         public readonly config: ErrorConfiguration,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None,
-        private launchJsonPath?: string
+        private launchJsonUri?: vscode.Uri
     ) {
         super(config.name, collapsibleState);
         this.tooltip = `${config.error.message}\n\nClick to open launch.json for editing`;
@@ -130,7 +334,7 @@ export class DebugErrorItem extends vscode.TreeItem {
         this.command = {
             command: 'vscode.open',
             title: 'Open launch.json',
-            arguments: [vscode.Uri.file(launchJsonPath || '')]
+            arguments: [launchJsonUri]
         };
     }
 
@@ -139,31 +343,327 @@ export class DebugErrorItem extends vscode.TreeItem {
     }
 }
 
-export class DebugConfigurationProvider implements vscode.TreeDataProvider<DebugConfigurationItem | DebugErrorItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<DebugConfigurationItem | DebugErrorItem | undefined | null | void> = new vscode.EventEmitter<DebugConfigurationItem | DebugErrorItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<DebugConfigurationItem | DebugErrorItem | undefined | null | void> = this._onDidChangeTreeData.event;
+/**
+ * Syntax errors of a launch file, listed above the configurations that could still be read
+ */
+export class DebugSyntaxErrorsItem extends vscode.TreeItem {
+    constructor(
+        public readonly errors: JSONCParseError[],
+        public readonly launchUri: vscode.Uri
+    ) {
+        super(errors.length === 1 ? '1 syntax error' : `${errors.length} syntax errors`, vscode.TreeItemCollapsibleState.Expanded);
+        this.description = 'configurations containing errors are hidden';
+        this.tooltip = `${launchUri.path.split('/').pop()} could not be fully parsed; configurations and compounds without errors are shown below`;
+        this.contextValue = 'syntaxErrors';
+        this.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground'));
+    }
+}
 
-    private workspaceRoot: string;
-    private launchJsonPath: string;
+/**
+ * One syntax error; clicking it selects the error in the launch file
+ */
+export class DebugSyntaxErrorItem extends vscode.TreeItem {
+    constructor(
+        public readonly error: JSONCParseError,
+        public readonly launchUri: vscode.Uri
+    ) {
+        super(error.message, vscode.TreeItemCollapsibleState.None);
+        this.description = `Ln ${error.line}, Col ${error.column}`;
+        this.tooltip = `${error.message} at line ${error.line}, column ${error.column}`;
+        this.contextValue = 'syntaxError';
+        this.iconPath = new vscode.ThemeIcon('circle-small-filled', new vscode.ThemeColor('list.errorForeground'));
+        this.command = {
+            command: 'tingly.debug.debugConfig.goToSyntaxError',
+            title: 'Go to Syntax Error',
+            arguments: [this]
+        };
+    }
+}
 
-    constructor() {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders && workspaceFolders.length > 0) {
-            this.workspaceRoot = workspaceFolders[0].uri.fsPath;
-        } else {
-            this.workspaceRoot = '';
+/**
+ * A launch started by our commands, shared by all sessions of a compound
+ */
+interface PendingLaunch {
+    name: string;
+    mode: SessionMode;
+    compound: boolean;
+    launchUri?: string;
+    entry?: Promise<RunHistoryEntry>;
+    results: RunStatus[];
+}
+
+/** Workspace state key listing the ids of collapsed group nodes */
+const COLLAPSED_GROUPS_KEY = 'tingly.debug.collapsedGroups';
+
+export type DebugTreeItem = DebugPinnedItem | DebugRecentItem | DebugHistoryItem | DebugFolderItem | DebugGroupItem | DebugConfigurationItem | DebugBrokenMemberItem | DebugErrorItem | DebugSyntaxErrorsItem | DebugSyntaxErrorItem;
+
+/** What a launch file shows in the tree: its configurations, or an item explaining why they are missing */
+export type LaunchFileItem = DebugConfigurationItem | DebugErrorItem | DebugSyntaxErrorsItem;
+
+export class DebugConfigurationProvider implements vscode.TreeDataProvider<DebugTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<DebugTreeItem | undefined | null | void> = new vscode.EventEmitter<DebugTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<DebugTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    /** Live top-level debug sessions by session id */
+    private readonly sessions = new Map<string, vscode.DebugSession>();
+    private readonly sessionModes = new Map<string, SessionMode>();
+    /** Launches announced by our own commands, by configuration name; consumed when the session starts */
+    private readonly pendingLaunches = new Map<string, PendingLaunch>();
+    private readonly sessionLaunches = new Map<string, PendingLaunch>();
+    /** Exit codes reported by debug adapters, by top-level session id */
+    private readonly exitCodes = new Map<string, number>();
+    /** Text the configuration lists are narrowed to; empty shows everything */
+    private filter = '';
+
+    /**
+     * @param state Workspace storage remembering which groups are collapsed
+     * @param diagnostics Validation results shown as item icons
+     */
+    constructor(
+        public readonly history?: RunHistory,
+        private readonly state?: vscode.Memento,
+        public readonly pins?: PinnedConfigurations,
+        private readonly diagnostics?: LaunchDiagnostics
+    ) { }
+
+    /**
+     * Track debug session lifecycle so items reflect what is running
+     */
+    watchDebugSessions(): vscode.Disposable {
+        return vscode.Disposable.from(
+            vscode.debug.onDidStartDebugSession(session => {
+                // Child sessions (e.g. js-debug workers) are controlled through their parent
+                if (session.parentSession) {
+                    return;
+                }
+                const launch = this.pendingLaunches.get(session.configuration.name);
+                this.pendingLaunches.delete(session.configuration.name);
+                this.sessions.set(session.id, session);
+                this.sessionModes.set(session.id, launch?.mode || (session.configuration.noDebug ? 'run' : 'debug'));
+
+                if (launch && this.history) {
+                    // Compound members share one launch, so only the first session records it
+                    launch.entry = launch.entry || this.history.record({
+                        name: launch.name,
+                        mode: launch.mode,
+                        compound: launch.compound,
+                        launchUri: launch.launchUri
+                    });
+                    this.sessionLaunches.set(session.id, launch);
+                    launch.entry.then(() => this.refresh(), error => log.error('Failed to record run history:', error));
+                }
+                this.refresh();
+            }),
+            vscode.debug.onDidTerminateDebugSession(session => {
+                if (this.sessions.delete(session.id)) {
+                    this.sessionModes.delete(session.id);
+                    this.finishLaunch(session.id).catch(error => log.error('Failed to update run history:', error));
+                    this.refresh();
+                }
+            }),
+            vscode.debug.registerDebugAdapterTrackerFactory('*', {
+                createDebugAdapterTracker: session => ({
+                    onDidSendMessage: message => {
+                        if (message.type === 'event' && message.event === 'exited' && typeof message.body?.exitCode === 'number') {
+                            let root = session;
+                            while (root.parentSession) {
+                                root = root.parentSession;
+                            }
+                            this.exitCodes.set(root.id, message.body.exitCode);
+                        }
+                    }
+                })
+            })
+        );
+    }
+
+    /**
+     * Announce a launch about to start so its sessions get the right mode and a history entry;
+     * compounds announce it for every member
+     */
+    trackLaunch(config: LaunchConfiguration | LaunchCompound, mode: SessionMode, scope?: LaunchScope): void {
+        const isCompound = 'configurations' in config;
+        const launch: PendingLaunch = {
+            name: config.name,
+            mode,
+            compound: isCompound,
+            launchUri: (scope || this.getDefaultScope())?.uri.toString(),
+            results: []
+        };
+
+        if (isCompound) {
+            for (const member of (config as LaunchCompound).configurations || []) {
+                this.pendingLaunches.set(typeof member === 'string' ? member : member.name, launch);
+            }
+            return;
+        }
+        this.pendingLaunches.set(config.name, launch);
+    }
+
+    /**
+     * Store a terminated session's outcome; once the last session of a launch ends, settle its history entry
+     */
+    private async finishLaunch(sessionId: string): Promise<void> {
+        const launch = this.sessionLaunches.get(sessionId);
+        const exitCode = this.exitCodes.get(sessionId);
+        this.sessionLaunches.delete(sessionId);
+        this.exitCodes.delete(sessionId);
+
+        if (!launch?.entry || !this.history) {
+            return;
+        }
+
+        launch.results.push(exitCode === undefined ? 'stopped' : exitCode === 0 ? 'succeeded' : 'failed');
+        if (Array.from(this.sessionLaunches.values()).includes(launch)) {
+            return; // Other compound members are still running
+        }
+
+        const status: RunStatus = launch.results.includes('failed')
+            ? 'failed'
+            : launch.results.every(result => result === 'succeeded') ? 'succeeded' : 'stopped';
+        const entry = await launch.entry;
+        await this.history.setStatus(entry.id, status, launch.results.length === 1 ? exitCode : undefined);
+        this.refresh();
+    }
+
+    /**
+     * Live sessions launched from an item; for a compound, the sessions of all its members
+     */
+    async getSessionsForItem(item: DebugConfigurationItem): Promise<vscode.DebugSession[]> {
+        if (!('configurations' in item.config)) {
+            return this.findSessions(item.config.name, item.scope);
+        }
+
+        const ownScope = item.scope || this.getDefaultScope();
+        const sessions: vscode.DebugSession[] = [];
+        for (const member of (item.config as LaunchCompound).configurations || []) {
+            const memberScope = await this.resolveMemberScope(member, ownScope);
+            if (memberScope) {
+                sessions.push(...this.findSessions(typeof member === 'string' ? member : member.name, memberScope));
+            }
+        }
+        return sessions;
+    }
+
+    getSessionMode(session: vscode.DebugSession): SessionMode {
+        return this.sessionModes.get(session.id) || 'debug';
+    }
+
+    private findSessions(name: string, scope?: LaunchScope): vscode.DebugSession[] {
+        const folderUri = scope?.folder?.uri.toString();
+        return Array.from(this.sessions.values()).filter(session =>
+            session.configuration.name === name &&
+            session.workspaceFolder?.uri.toString() === folderUri
+        );
+    }
+
+    private async applySessionState(item: DebugConfigurationItem): Promise<void> {
+        const sessions = await this.getSessionsForItem(item);
+        if (sessions.length > 0) {
+            const mode = sessions.some(session => this.getSessionMode(session) === 'debug') ? 'debug' : 'run';
+            item.setSessionState(mode, sessions.length);
+        }
+    }
+
+    private applyProblems(item: DebugConfigurationItem, scope: LaunchScope): void {
+        if (this.diagnostics) {
+            const kind = 'configurations' in item.config ? 'compound' : 'configuration';
+            item.setProblems(this.diagnostics.getItemProblems(scope.uri.toString(), kind, item.config.name));
+        }
+    }
+
+    /**
+     * Scopes a compound member can point at: the named workspace folder, or for a plain name the
+     * compound's own launch file, else every other launch file declaring it
+     */
+    private async findMemberScopes(member: CompoundMember, ownScope?: LaunchScope): Promise<LaunchScope[]> {
+        const scopes = this.getLaunchScopes();
+        if (typeof member !== 'string') {
+            return scopes.filter(candidate => candidate.folder?.name === member.folder);
+        }
+
+        const namesByUri: Record<string, string[]> = {};
+        for (const scope of scopes) {
+            try {
+                namesByUri[scope.uri.toString()] = (await this.readConfigurationsOnly(scope))
+                    .map(config => config?.name)
+                    .filter((name): name is string => typeof name === 'string');
+            } catch (error) {
+                namesByUri[scope.uri.toString()] = [];
+            }
         }
-        this.launchJsonPath = `${this.workspaceRoot}/.vscode/launch.json`;
+        const owners = findMemberOwners(member, namesByUri, ownScope?.uri.toString());
+        return scopes.filter(scope => owners.includes(scope.uri.toString()));
+    }
+
+    /**
+     * Scope a compound member resolves to, or undefined when it is missing or ambiguous
+     */
+    private async resolveMemberScope(member: CompoundMember, ownScope?: LaunchScope): Promise<LaunchScope | undefined> {
+        const scopes = await this.findMemberScopes(member, ownScope);
+        return scopes.length === 1 ? scopes[0] : undefined;
+    }
+
+    /**
+     * List every location that can hold launch configurations: one launch.json per
+     * workspace folder, plus the .code-workspace file's `launch` section when present
+     */
+    getLaunchScopes(): LaunchScope[] {
+        const scopes: LaunchScope[] = (vscode.workspace.workspaceFolders || []).map(folder => ({
+            folder,
+            uri: vscode.Uri.joinPath(folder.uri, '.vscode', 'launch.json'),
+            launchPath: [],
+            label: folder.name
+        }));
+
+        // Untitled workspaces have no file on disk to write to
+        const workspaceFile = vscode.workspace.workspaceFile;
+        if (workspaceFile && workspaceFile.scheme !== 'untitled') {
+            scopes.push({
+                uri: workspaceFile,
+                launchPath: ['launch'],
+                label: 'Workspace'
+            });
+        }
+
+        return scopes;
+    }
+
+    /**
+     * Scope used when a caller does not name one: the first workspace folder
+     */
+    getDefaultScope(): LaunchScope | undefined {
+        return this.getLaunchScopes()[0];
+    }
+
+    /**
+     * Find the scope of the workspace folder that contains the given file
+     */
+    getScopeForUri(uri: vscode.Uri): LaunchScope | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) {
+            return undefined;
+        }
+        return this.getLaunchScopes().find(scope => scope.folder?.uri.toString() === folder.uri.toString());
+    }
+
+    private resolveScope(scope?: LaunchScope): LaunchScope {
+        const resolved = scope || this.getDefaultScope();
+        if (!resolved) {
+            throw new Error('No workspace folder is open');
+        }
+        return resolved;
     }
 
     /**
      * Check if launch.json exists and prompt user to create it if it doesn't
      * @param operation The operation being attempted (for user message)
      * @param allowCreate Whether to offer creating the file (for add/duplicate operations)
+     * @param scope The launch scope whose file is checked
      * @returns true if file exists or user chose to create it, false if user cancelled or file can't be created
      */
-    private async ensureLaunchJsonExists(operation: string, allowCreate: boolean = false): Promise<boolean> {
-        const launchUri = vscode.Uri.file(this.launchJsonPath);
+    private async ensureLaunchJsonExists(operation: string, allowCreate: boolean = false, scope?: LaunchScope): Promise<boolean> {
+        const launchUri = this.resolveScope(scope).uri;
 
         try {
             await vscode.workspace.fs.stat(launchUri);
@@ -193,35 +693,142 @@ export class DebugConfigurationProvider implements vscode.TreeDataProvider<Debug
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: DebugConfigurationItem | DebugErrorItem): vscode.TreeItem {
+    getFilter(): string {
+        return this.filter;
+    }
+
+    /**
+     * Narrow the tree to configurations matching the text; an empty filter clears it
+     */
+    setFilter(filter: string): void {
+        this.filter = filter.trim();
+        this.refresh();
+    }
+
+    /**
+     * Apply the active filter to a configuration list; error items are always kept
+     */
+    private applyFilter(items: LaunchFileItem[]): LaunchFileItem[] {
+        if (!this.filter) {
+            return items;
+        }
+        return items.filter(item => !(item instanceof DebugConfigurationItem) || matchesFilter(item.config, this.filter));
+    }
+
+    /**
+     * Filter a scope's configuration list and split it into groups per the `groupBy` setting;
+     * error items stay on top, outside any group
+     */
+    private presentConfigurations(items: LaunchFileItem[], scope?: LaunchScope): DebugTreeItem[] {
+        const filtered = this.applyFilter(items);
+        const groupBy = vscode.workspace.getConfiguration('tingly.debug').get<GroupBy>('groupBy', 'none');
+        if (groupBy === 'none') {
+            return filtered;
+        }
+
+        const errors = filtered.filter(item => !(item instanceof DebugConfigurationItem));
+        const configurations = filtered.filter((item): item is DebugConfigurationItem => item instanceof DebugConfigurationItem);
+        const collapsed = new Set(this.state?.get<string[]>(COLLAPSED_GROUPS_KEY, []) || []);
+        return [
+            ...errors,
+            ...groupConfigurations(configurations, groupBy).map(group =>
+                new DebugGroupItem(group.label, group.items, groupBy, scope, !collapsed.has(DebugGroupItem.getId(group.label, groupBy, scope))))
+        ];
+    }
+
+    /**
+     * Remember whether a group is expanded for this workspace
+     */
+    async setGroupExpanded(group: DebugGroupItem, expanded: boolean): Promise<void> {
+        if (!this.state || !group.id) {
+            return;
+        }
+        const collapsed = new Set(this.state.get<string[]>(COLLAPSED_GROUPS_KEY, []));
+        if (expanded) {
+            collapsed.delete(group.id);
+        } else {
+            collapsed.add(group.id);
+        }
+        await this.state.update(COLLAPSED_GROUPS_KEY, Array.from(collapsed));
+    }
+
+    getTreeItem(element: DebugTreeItem): vscode.TreeItem {
         return element;
     }
 
-    getChildren(element?: DebugConfigurationItem | DebugErrorItem): Thenable<DebugConfigurationItem[] | DebugErrorItem[]> {
+    getChildren(element?: DebugTreeItem): Thenable<DebugTreeItem[]> {
         if (!element) {
-            // Root level - return all configurations or error items
-            return this.getConfigurations();
+            // Root level - one node per scope in multi-root workspaces, otherwise the configurations directly
+            const scopes = this.getLaunchScopes();
+            const pins = this.pins?.getPins() || [];
+            const historyEntries = this.history?.getEntries() || [];
+            const sections: DebugTreeItem[] = [
+                ...(pins.length > 0 ? [new DebugPinnedItem(pins)] : []),
+                ...(historyEntries.length > 0 ? [new DebugRecentItem(historyEntries)] : [])
+            ];
+            if (scopes.length > 1) {
+                return Promise.resolve([...sections, ...scopes.map(scope => new DebugFolderItem(scope))]);
+            }
+            return this.getConfigurations(scopes[0]).then(items => [...sections, ...this.presentConfigurations(items, scopes[0])]);
+        }
+        if (element instanceof DebugPinnedItem) {
+            return this.getPinnedItems(element.pins);
+        }
+        if (element instanceof DebugRecentItem) {
+            return Promise.resolve(element.entries.map(entry => new DebugHistoryItem(entry)));
+        }
+        if (element instanceof DebugFolderItem) {
+            return this.getConfigurations(element.scope).then(items => this.presentConfigurations(items, element.scope));
+        }
+        if (element instanceof DebugGroupItem) {
+            return Promise.resolve(element.items);
+        }
+        if (element instanceof DebugSyntaxErrorsItem) {
+            return Promise.resolve(element.errors.map(error => new DebugSyntaxErrorItem(error, element.launchUri)));
+        }
+        if (element instanceof DebugConfigurationItem && 'configurations' in element.config) {
+            return this.getCompoundMembers(element.config as LaunchCompound, element.scope);
         }
         return Promise.resolve([]);
     }
 
-    public async getConfigurations(): Promise<DebugConfigurationItem[] | DebugErrorItem[]> {
+    public async getConfigurations(scope?: LaunchScope): Promise<LaunchFileItem[]> {
+        const targetScope = scope || this.getDefaultScope();
+        if (!targetScope) {
+            log.debug('No workspace folder open, returning empty array');
+            return [];
+        }
+
         try {
-            const launchJson = await this.readLaunchJson();
+            // Syntax errors hide only the configurations they occur in
+            const { launch, errors } = parseLaunchTolerant(await this.readLaunchText(targetScope), targetScope.launchPath);
             const config = vscode.workspace.getConfiguration('tingly.debug');
             const clickBehavior = config.get<ClickBehavior>('clickBehavior', 'openSettings');
 
-            const configurations = launchJson.configurations || [];
-            const compounds = launchJson.compounds || [];
+            const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+            const configurations: LaunchConfiguration[] = Array.isArray(launch.configurations) ? launch.configurations.filter(isObject) : [];
+            const compounds: LaunchCompound[] = Array.isArray(launch.compounds) ? launch.compounds.filter(isObject) : [];
 
-            log.debug(`DebugConfigurationProvider: read ${configurations.length} configurations, ${compounds.length} compounds, clickBehavior=${clickBehavior}`);
+            log.debug(`DebugConfigurationProvider: read ${configurations.length} configurations, ${compounds.length} compounds from ${targetScope.label}, clickBehavior=${clickBehavior}`);
 
             const items: DebugConfigurationItem[] = [
-                ...configurations.map(c => new DebugConfigurationItem(c, vscode.TreeItemCollapsibleState.None, clickBehavior)),
-                ...compounds.map(c => new DebugConfigurationItem(c, vscode.TreeItemCollapsibleState.None, clickBehavior)),
+                ...configurations.map(c => new DebugConfigurationItem(c, vscode.TreeItemCollapsibleState.None, clickBehavior, targetScope)),
+                ...compounds.map(c => new DebugConfigurationItem(c, vscode.TreeItemCollapsibleState.Collapsed, clickBehavior, targetScope)),
             ];
 
+            for (const item of items) {
+                if (this.pins?.isPinned(item.config.name, targetScope.uri.toString())) {
+                    item.setPinned();
+                }
+                this.applyProblems(item, targetScope);
+                await this.applySessionState(item);
+            }
+
             log.debug(`DebugConfigurationProvider: created ${items.length} DebugConfigurationItems`);
+            if (errors.length > 0) {
+                log.warn(`${targetScope.label}: ${errors.length} syntax errors in ${targetScope.uri.toString()}`);
+                return [new DebugSyntaxErrorsItem(errors, targetScope.uri), ...items];
+            }
             return items;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -256,23 +863,121 @@ export class DebugConfigurationProvider implements vscode.TreeDataProvider<Debug
                 }
             };
 
-            return [new DebugErrorItem(errorConfig, vscode.TreeItemCollapsibleState.None, this.launchJsonPath)];
+            return [new DebugErrorItem(errorConfig, vscode.TreeItemCollapsibleState.None, targetScope.uri)];
         }
     }
 
-    public async readLaunchJson(): Promise<LaunchJson> {
-        const launchUri = vscode.Uri.file(this.launchJsonPath);
-        const document = await vscode.workspace.openTextDocument(launchUri);
-        const content = document.getText();
-        return parseJSONC(content);
+    /**
+     * Resolve pins to configuration items in pin order; pins whose configuration is gone are skipped
+     */
+    private async getPinnedItems(pins: PinnedConfiguration[]): Promise<DebugTreeItem[]> {
+        const scopes = this.getLaunchScopes();
+        const itemsByUri = new Map<string, LaunchFileItem[]>();
+
+        const items: DebugTreeItem[] = [];
+        for (const pin of pins) {
+            const scope = scopes.find(candidate => candidate.uri.toString() === pin.launchUri);
+            if (!scope) {
+                continue;
+            }
+
+            const key = scope.uri.toString();
+            if (!itemsByUri.has(key)) {
+                itemsByUri.set(key, await this.getConfigurations(scope));
+            }
+
+            const item = (itemsByUri.get(key) as DebugTreeItem[]).find(candidate =>
+                candidate instanceof DebugConfigurationItem && candidate.config.name === pin.name) as DebugConfigurationItem | undefined;
+            if (!item || (this.filter && !matchesFilter(item.config, this.filter))) {
+                continue;
+            }
+            if (scopes.length > 1) {
+                item.description = `${item.description} · ${scope.label}`;
+            }
+            items.push(item);
+        }
+        return items;
     }
 
-    public async readConfigurationsOnly(): Promise<LaunchConfiguration[]> {
+    /**
+     * Resolve a compound's members by name, in the compound's own launch file, the only other
+     * launch file declaring the name, or the workspace folder a member names; unresolvable
+     * members become broken items
+     */
+    public async getCompoundMembers(compound: LaunchCompound, scope?: LaunchScope): Promise<DebugTreeItem[]> {
+        const ownScope = scope || this.getDefaultScope();
+        const clickBehavior = vscode.workspace.getConfiguration('tingly.debug').get<ClickBehavior>('clickBehavior', 'openSettings');
+        const configurationsByUri = new Map<string, LaunchConfiguration[]>();
+
+        const items: DebugTreeItem[] = [];
+        for (const member of compound.configurations || []) {
+            const name = typeof member === 'string' ? member : member.name;
+            const memberScopes = await this.findMemberScopes(member, ownScope);
+            if (memberScopes.length !== 1) {
+                let reason = typeof member === 'string' ? 'missing in every launch file' : `folder "${member.folder}" not found`;
+                if (memberScopes.length > 1) {
+                    reason = `declared in ${memberScopes.map(candidate => candidate.label).join(', ')}`;
+                }
+                items.push(new DebugBrokenMemberItem(compound, member, reason));
+                continue;
+            }
+            const memberScope = memberScopes[0];
+
+            const key = memberScope.uri.toString();
+            if (!configurationsByUri.has(key)) {
+                try {
+                    configurationsByUri.set(key, await this.readConfigurationsOnly(memberScope));
+                } catch (error) {
+                    log.warn(`Failed to read configurations of ${memberScope.label}:`, error);
+                    configurationsByUri.set(key, []);
+                }
+            }
+
+            const config = configurationsByUri.get(key)!.find(candidate => candidate && candidate.name === name);
+            if (!config) {
+                items.push(new DebugBrokenMemberItem(compound, member, `missing in ${memberScope.label}`));
+                continue;
+            }
+
+            const memberItem = new DebugCompoundMemberItem(config, compound, member, clickBehavior, memberScope);
+            this.applyProblems(memberItem, memberScope);
+            await this.applySessionState(memberItem);
+            items.push(memberItem);
+        }
+
+        return items;
+    }
+
+    /**
+     * Configurations a compound launches with their scopes, or undefined when any member cannot be resolved
+     */
+    public async resolveCompoundConfigurations(compound: LaunchCompound, scope?: LaunchScope): Promise<ResolvedCompoundMember[] | undefined> {
+        const resolved: ResolvedCompoundMember[] = [];
+        for (const member of await this.getCompoundMembers(compound, scope)) {
+            if (!(member instanceof DebugCompoundMemberItem) || !member.scope) {
+                return undefined;
+            }
+            resolved.push({ config: member.config as LaunchConfiguration, scope: member.scope });
+        }
+        return resolved;
+    }
+
+    private async readLaunchText(scope: LaunchScope): Promise<string> {
+        const document = await vscode.workspace.openTextDocument(scope.uri);
+        return document.getText();
+    }
+
+    public async readLaunchJson(scope?: LaunchScope): Promise<LaunchJson> {
+        const targetScope = this.resolveScope(scope);
+        const content = await this.readLaunchText(targetScope);
+        return getLaunchSection(parseJSONC(content), targetScope.launchPath);
+    }
+
+    public async readConfigurationsOnly(scope?: LaunchScope): Promise<LaunchConfiguration[]> {
         try {
-            const launchUri = vscode.Uri.file(this.launchJsonPath);
-            const document = await vscode.workspace.openTextDocument(launchUri);
-            const content = document.getText();
-            return parseJSONCConfigurations(content);
+            const targetScope = this.resolveScope(scope);
+            const content = await this.readLaunchText(targetScope);
+            return parseJSONCConfigurations(content, targetScope.launchPath);
         } catch (error) {
             // Check if the error is due to file not found - check various possible error codes/messages
             const errorMessage = error instanceof Error ? error.message : String(error);
@@ -299,44 +1004,47 @@ export class DebugConfigurationProvider implements vscode.TreeDataProvider<Debug
         }
     }
 
-    async writeLaunchJson(launchJson: LaunchJson): Promise<void> {
+    async writeLaunchJson(launchJson: LaunchJson, scope?: LaunchScope): Promise<void> {
         try {
+            const targetScope = this.resolveScope(scope);
+            if (targetScope.launchPath.length > 0) {
+                // Rewriting would drop the rest of the .code-workspace file
+                throw new Error('Cannot overwrite the workspace file launch section');
+            }
+
             // Use simplified JSONC serialization
             const content = serializeJSONC(launchJson);
 
-            const launchUri = vscode.Uri.file(this.launchJsonPath);
-
             // Create .vscode directory if it doesn't exist
-            const vscodeDir = this.launchJsonPath.substring(0, this.launchJsonPath.lastIndexOf('/'));
+            const vscodeDir = vscode.Uri.joinPath(targetScope.uri, '..');
             try {
-                await vscode.workspace.fs.stat(vscode.Uri.file(vscodeDir));
+                await vscode.workspace.fs.stat(vscodeDir);
             } catch {
-                await vscode.workspace.fs.createDirectory(vscode.Uri.file(vscodeDir));
+                await vscode.workspace.fs.createDirectory(vscodeDir);
             }
 
-            await vscode.workspace.fs.writeFile(launchUri, new TextEncoder().encode(content));
+            await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(content));
         } catch (error) {
             throw new Error(`Failed to write launch.json: ${error}`);
         }
     }
 
-    async addConfiguration(config: LaunchConfiguration, autoCreate: boolean = true): Promise<void> {
+    async addConfiguration(config: LaunchConfiguration, autoCreate: boolean = true, scope?: LaunchScope): Promise<void> {
         try {
-            const launchUri = vscode.Uri.file(this.launchJsonPath);
+            const targetScope = this.resolveScope(scope);
 
             // Try to read existing file
             let existingContent: string | undefined;
             try {
-                const document = await vscode.workspace.openTextDocument(launchUri);
-                existingContent = document.getText();
+                existingContent = await this.readLaunchText(targetScope);
             } catch {
                 // File doesn't exist, that's fine
             }
 
             if (existingContent !== undefined) {
                 // File exists, add configuration to it
-                const newContent = addLaunchConfiguration(existingContent, config);
-                await vscode.workspace.fs.writeFile(launchUri, new TextEncoder().encode(newContent));
+                const newContent = addLaunchConfiguration(existingContent, config, targetScope.launchPath);
+                await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
                 this.refresh();
             } else {
                 // File doesn't exist, create new file with the configuration
@@ -357,7 +1065,7 @@ export class DebugConfigurationProvider implements vscode.TreeDataProvider<Debug
                     version: "0.2.0",
                     configurations: [config]
                 };
-                await this.writeLaunchJson(launchJson);
+                await this.writeLaunchJson(launchJson, targetScope);
                 this.refresh();
             }
         } catch (error) {
@@ -365,83 +1073,237 @@ export class DebugConfigurationProvider implements vscode.TreeDataProvider<Debug
         }
     }
 
-    async updateConfiguration(oldName: string, newConfig: LaunchConfiguration | LaunchCompound): Promise<void> {
+    async addCompound(compound: LaunchCompound, scope?: LaunchScope): Promise<void> {
+        try {
+            // Compounds reference existing configurations, so the file must already exist
+            if (!await this.ensureLaunchJsonExists('add compound', false, scope)) {
+                return; // File doesn't exist and error was shown
+            }
+
+            const targetScope = this.resolveScope(scope);
+            const existingContent = await this.readLaunchText(targetScope);
+
+            // Use JSONC utility to append the compound while preserving comments
+            const newContent = addLaunchCompound(existingContent, compound, targetScope.launchPath);
+
+            await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
+            this.refresh();
+        } catch (error) {
+            throw new Error(`Failed to add compound: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async updateConfiguration(oldName: string, newConfig: LaunchConfiguration | LaunchCompound, scope?: LaunchScope): Promise<void> {
         try {
             // Check if launch.json exists
-            if (!await this.ensureLaunchJsonExists('update configuration')) {
+            if (!await this.ensureLaunchJsonExists('update configuration', false, scope)) {
                 return; // File doesn't exist and error was shown
             }
 
-            const launchUri = vscode.Uri.file(this.launchJsonPath);
-            const document = await vscode.workspace.openTextDocument(launchUri);
-            const existingContent = document.getText();
+            const targetScope = this.resolveScope(scope);
+            const existingContent = await this.readLaunchText(targetScope);
 
             // Use JSONC utility to update configuration while preserving comments
-            const newContent = updateLaunchConfiguration(existingContent, oldName, newConfig);
+            const newContent = 'configurations' in newConfig
+                ? updateLaunchCompound(existingContent, oldName, newConfig, targetScope.launchPath)
+                : updateLaunchConfiguration(existingContent, oldName, newConfig, targetScope.launchPath);
 
-            await vscode.workspace.fs.writeFile(launchUri, new TextEncoder().encode(newContent));
+            await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
+            // Renames made in the configuration editor keep the pin
+            await this.pins?.rename(oldName, newConfig.name, targetScope.uri.toString());
             this.refresh();
         } catch (error) {
             throw new Error(`Failed to update configuration: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
-    async deleteConfiguration(name: string): Promise<void> {
+    async deleteConfiguration(name: string, scope?: LaunchScope): Promise<void> {
         try {
             // Check if launch.json exists
-            if (!await this.ensureLaunchJsonExists('delete configuration')) {
+            if (!await this.ensureLaunchJsonExists('delete configuration', false, scope)) {
                 return; // File doesn't exist and error was shown
             }
 
-            const launchUri = vscode.Uri.file(this.launchJsonPath);
-            const document = await vscode.workspace.openTextDocument(launchUri);
-            const existingContent = document.getText();
+            const targetScope = this.resolveScope(scope);
+            const existingContent = await this.readLaunchText(targetScope);
 
             // Use JSONC utility to remove configuration while preserving comments
-            const newContent = removeLaunchConfiguration(existingContent, name);
+            const newContent = removeLaunchConfiguration(existingContent, name, targetScope.launchPath);
 
-            await vscode.workspace.fs.writeFile(launchUri, new TextEncoder().encode(newContent));
+            await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
+            await this.pins?.unpin(name, targetScope.uri.toString());
             this.refresh();
         } catch (error) {
             throw new Error(`Failed to delete configuration: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
-    async duplicateConfiguration(config: LaunchConfiguration | LaunchCompound): Promise<void> {
+    /**
+     * Reorder a configuration in its launch file, placing it before another one or last
+     */
+    async moveConfiguration(name: string, beforeName: string | undefined, scope?: LaunchScope): Promise<void> {
+        try {
+            const targetScope = this.resolveScope(scope);
+            const existingContent = await this.readLaunchText(targetScope);
+
+            // Index of the drop target once the moved configuration is out of the way
+            const remaining = parseJSONCConfigurations(existingContent, targetScope.launchPath)
+                .map(config => config.name)
+                .filter(candidate => candidate !== name);
+            const beforeIndex = beforeName === undefined ? -1 : remaining.indexOf(beforeName);
+            const toIndex = beforeIndex === -1 ? remaining.length : beforeIndex;
+
+            const newContent = moveLaunchConfiguration(existingContent, name, toIndex, targetScope.launchPath);
+            if (newContent !== existingContent) {
+                await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
+            }
+            this.refresh();
+        } catch (error) {
+            throw new Error(`Failed to move configuration: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Reorder a compound in its launch file, placing it before another compound or last
+     */
+    async moveCompound(name: string, beforeName: string | undefined, scope?: LaunchScope): Promise<void> {
+        try {
+            const targetScope = this.resolveScope(scope);
+            const existingContent = await this.readLaunchText(targetScope);
+
+            const remaining = this.readCompounds(existingContent, targetScope)
+                .map(compound => compound.name)
+                .filter(candidate => candidate !== name);
+            const beforeIndex = beforeName === undefined ? -1 : remaining.indexOf(beforeName);
+            const toIndex = beforeIndex === -1 ? remaining.length : beforeIndex;
+
+            const newContent = moveLaunchCompound(existingContent, name, toIndex, targetScope.launchPath);
+            if (newContent !== existingContent) {
+                await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
+            }
+            this.refresh();
+        } catch (error) {
+            throw new Error(`Failed to move compound: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private readCompounds(content: string, scope: LaunchScope): LaunchCompound[] {
+        return getLaunchSection(parseJSONC(content), scope.launchPath).compounds || [];
+    }
+
+    /**
+     * Append members to a compound, skipping ones it already has
+     */
+    async addCompoundMembers(compound: LaunchCompound, members: CompoundMember[], scope?: LaunchScope): Promise<void> {
+        const key = (member: CompoundMember) => typeof member === 'string' ? member : `${member.folder}/${member.name}`;
+        const existing = new Set(compound.configurations.map(key));
+        const added = members.filter(member => !existing.has(key(member)));
+        if (added.length === 0) {
+            return;
+        }
+        await this.updateConfiguration(compound.name, { ...compound, configurations: [...compound.configurations, ...added] }, scope);
+    }
+
+    async deleteCompound(name: string, scope?: LaunchScope): Promise<void> {
+        try {
+            // Check if launch.json exists
+            if (!await this.ensureLaunchJsonExists('delete compound', false, scope)) {
+                return; // File doesn't exist and error was shown
+            }
+
+            const targetScope = this.resolveScope(scope);
+            const existingContent = await this.readLaunchText(targetScope);
+
+            // Use JSONC utility to remove compound while preserving comments
+            const newContent = removeLaunchCompound(existingContent, name, targetScope.launchPath);
+
+            await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
+            await this.pins?.unpin(name, targetScope.uri.toString());
+            this.refresh();
+        } catch (error) {
+            throw new Error(`Failed to delete compound: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Add an input declaration, or replace the one currently declared as `oldId`
+     */
+    async saveInput(oldId: string | undefined, input: LaunchInput, scope?: LaunchScope): Promise<void> {
+        try {
+            if (!await this.ensureLaunchJsonExists('save input', false, scope)) {
+                return; // File doesn't exist and error was shown
+            }
+
+            const targetScope = this.resolveScope(scope);
+            const existingContent = await this.readLaunchText(targetScope);
+
+            const newContent = oldId === undefined
+                ? addLaunchInput(existingContent, input, targetScope.launchPath)
+                : updateLaunchInput(existingContent, oldId, input, targetScope.launchPath);
+
+            await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
+            this.refresh();
+        } catch (error) {
+            throw new Error(`Failed to save input: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async deleteInput(id: string, scope?: LaunchScope): Promise<void> {
+        try {
+            if (!await this.ensureLaunchJsonExists('delete input', false, scope)) {
+                return; // File doesn't exist and error was shown
+            }
+
+            const targetScope = this.resolveScope(scope);
+            const existingContent = await this.readLaunchText(targetScope);
+
+            const newContent = removeLaunchInput(existingContent, id, targetScope.launchPath);
+
+            await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
+            this.refresh();
+        } catch (error) {
+            throw new Error(`Failed to delete input: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async duplicateConfiguration(config: LaunchConfiguration | LaunchCompound, scope?: LaunchScope): Promise<void> {
         try {
             // Check if launch.json exists and prompt user to create it
-            if (!await this.ensureLaunchJsonExists('with this duplicated configuration', true)) {
+            if (!await this.ensureLaunchJsonExists('with this duplicated configuration', true, scope)) {
                 return; // User cancelled or file can't be created
             }
 
-            const launchUri = vscode.Uri.file(this.launchJsonPath);
-            const document = await vscode.workspace.openTextDocument(launchUri);
-            const existingContent = document.getText();
+            const targetScope = this.resolveScope(scope);
+            const existingContent = await this.readLaunchText(targetScope);
 
+            // Insert the copy right after the original, preserving comments
+            let newContent: string;
             if ('configurations' in config) {
-                // Duplicate compound — compounds are not handled by addLaunchConfiguration,
-                // so fall back to a full rewrite only for this case
-                const launchJson = await this.readLaunchJson();
+                const compound = config as LaunchCompound;
+                const index = this.readCompounds(existingContent, targetScope).findIndex(candidate => candidate.name === compound.name);
                 const newCompound: LaunchCompound = {
-                    name: `${config.name} Copy`,
-                    configurations: [...(config as LaunchCompound).configurations]
+                    ...compound,
+                    name: `${compound.name} Copy`,
+                    configurations: [...compound.configurations]
                 };
-                launchJson.compounds = launchJson.compounds || [];
-                launchJson.compounds.push(newCompound);
-                await this.writeLaunchJson(launchJson);
+                newContent = index === -1
+                    ? addLaunchCompound(existingContent, newCompound, targetScope.launchPath)
+                    : insertLaunchCompound(existingContent, newCompound, index + 1, targetScope.launchPath);
             } else {
-                // Duplicate regular configuration — use text-level append to preserve comments
+                const index = parseJSONCConfigurations(existingContent, targetScope.launchPath).findIndex(candidate => candidate.name === config.name);
                 const newConfig: LaunchConfiguration = {
                     ...config,
                     name: `${config.name} Copy`
                 };
-                const newContent = addLaunchConfiguration(existingContent, newConfig);
-                await vscode.workspace.fs.writeFile(launchUri, new TextEncoder().encode(newContent));
+                newContent = index === -1
+                    ? addLaunchConfiguration(existingContent, newConfig, targetScope.launchPath)
+                    : insertLaunchConfiguration(existingContent, newConfig, index + 1, targetScope.launchPath);
             }
+            await vscode.workspace.fs.writeFile(targetScope.uri, new TextEncoder().encode(newContent));
 
             this.refresh();
         } catch (error) {
             throw new Error(`Failed to duplicate configuration: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
-}
\ No newline at end of file
+}